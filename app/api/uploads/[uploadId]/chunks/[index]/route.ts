@@ -0,0 +1,30 @@
+import { NextResponse } from "next/server"
+import { getChunkCount, getUpload, isStandInEnabled, writeChunk } from "../../../upload-storage"
+
+// PUT /uploads/:id/chunks/:index: store one chunk; re-sending a chunk overwrites it
+export async function PUT(request: Request, { params }: { params: Promise<{ uploadId: string; index: string }> }) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { uploadId, index: indexParam } = await params
+  const meta = await getUpload(uploadId)
+  if (!meta) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+  }
+
+  const index = Number(indexParam)
+  const chunkCount = getChunkCount(meta)
+  if (!Number.isInteger(index) || index < 0 || index >= chunkCount) {
+    return NextResponse.json({ error: `Chunk index must be between 0 and ${chunkCount - 1}` }, { status: 400 })
+  }
+
+  const data = Buffer.from(await request.arrayBuffer())
+  const expectedSize = Math.min(meta.chunk_size, meta.size - index * meta.chunk_size)
+  if (data.length !== expectedSize) {
+    return NextResponse.json({ error: `Chunk ${index} should be ${expectedSize} bytes, got ${data.length}` }, { status: 400 })
+  }
+
+  await writeChunk(uploadId, index, data)
+  return NextResponse.json({ index, received: data.length })
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server"
+import {
+  BACKEND_URL,
+  deleteUpload,
+  getChunkCount,
+  getReceivedChunks,
+  getUpload,
+  isStandInEnabled,
+  readAssembledFile,
+} from "../../upload-storage"
+
+// POST /uploads/:id/complete: assemble the chunks and submit the file to the backend for analysis.
+// Responds with the backend's /upload response, so the client sees the same document shape either way
+export async function POST(_request: Request, { params }: { params: Promise<{ uploadId: string }> }) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { uploadId } = await params
+  const meta = await getUpload(uploadId)
+  if (!meta) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+  }
+
+  const received = await getReceivedChunks(uploadId)
+  const missing = Array.from({ length: getChunkCount(meta) }, (_, index) => index).filter((index) => !received.includes(index))
+  if (missing.length > 0) {
+    return NextResponse.json({ error: `Upload is missing chunks: ${missing.join(", ")}` }, { status: 409 })
+  }
+
+  const formData = new FormData()
+  formData.append("file", await readAssembledFile(meta), meta.name)
+  if (meta.sha256) formData.append("sha256", meta.sha256)
+  if (meta.previous_version_id) formData.append("previous_version_id", meta.previous_version_id)
+
+  try {
+    const response = await fetch(`${BACKEND_URL}/upload`, { method: "POST", body: formData })
+    const text = await response.text()
+    // Keep the chunks on failure so the client can retry completion without re-sending them
+    if (response.ok) await deleteUpload(uploadId)
+    try {
+      return NextResponse.json(JSON.parse(text), { status: response.status })
+    } catch {
+      // Errors from proxies in front of the backend are often plain text or HTML; keep their status and text
+      const error = text.trim() || response.statusText || `Backend responded with ${response.status}`
+      return NextResponse.json({ error }, { status: response.status })
+    }
+  } catch (error) {
+    console.error("Error forwarding upload to backend:", error)
+    return NextResponse.json({ error: "Could not reach the analysis backend" }, { status: 502 })
+  }
+}
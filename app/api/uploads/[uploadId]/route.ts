@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server"
+import { deleteUpload, getReceivedChunks, getUpload, isStandInEnabled } from "../upload-storage"
+
+type Params = { params: Promise<{ uploadId: string }> }
+
+// GET /uploads/:id: which chunks the server already has, for resuming
+export async function GET(_request: Request, { params }: Params) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { uploadId } = await params
+  const meta = await getUpload(uploadId)
+  if (!meta) {
+    return NextResponse.json({ error: "Upload not found" }, { status: 404 })
+  }
+
+  return NextResponse.json({
+    upload_id: meta.upload_id,
+    chunk_size: meta.chunk_size,
+    received_chunks: await getReceivedChunks(uploadId),
+  })
+}
+
+// DELETE /uploads/:id: abandon an upload and drop its chunks
+export async function DELETE(_request: Request, { params }: Params) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const { uploadId } = await params
+  await deleteUpload(uploadId)
+  return new NextResponse(null, { status: 204 })
+}
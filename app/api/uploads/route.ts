@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server"
+import { createUpload, isStandInEnabled, MAX_UPLOAD_SIZE } from "./upload-storage"
+
+// POST /uploads: start a chunked upload
+export async function POST(request: Request) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 })
+  }
+
+  const body = await request.json().catch(() => null)
+  if (!body || typeof body.name !== "string" || !Number.isInteger(body.size) || body.size <= 0) {
+    return NextResponse.json({ error: "Upload needs a file name and a positive size" }, { status: 400 })
+  }
+  if (body.size > MAX_UPLOAD_SIZE) {
+    return NextResponse.json({ error: `Uploads are limited to ${MAX_UPLOAD_SIZE / (1024 * 1024)} MB` }, { status: 413 })
+  }
+
+  const optional = (value: unknown) => (typeof value === "string" && value ? value : undefined)
+  const meta = await createUpload({
+    name: body.name,
+    size: body.size,
+    content_type: optional(body.content_type) || "",
+    sha256: optional(body.sha256),
+    previous_version_id: optional(body.previous_version_id),
+  })
+  return NextResponse.json({ upload_id: meta.upload_id, chunk_size: meta.chunk_size, received_chunks: [] }, { status: 201 })
+}
@@ -0,0 +1,122 @@
+// Stand-in implementation of the resumable upload protocol for local development and testing.
+// Chunks are written under the OS temp directory; on completion the assembled file is handed to
+// the backend's regular /upload endpoint. Enable it with ENABLE_UPLOAD_STAND_IN=true (ignored in
+// production builds) and point the frontend at it with NEXT_PUBLIC_UPLOAD_API_URL=/api
+
+import { randomUUID } from "crypto"
+import { mkdir, readFile, readdir, rename, rm, stat, writeFile } from "fs/promises"
+import { tmpdir } from "os"
+import path from "path"
+
+export const CHUNK_SIZE = 5 * 1024 * 1024
+export const MAX_UPLOAD_SIZE = 500 * 1024 * 1024
+// Uploads untouched for this long are deleted the next time an upload starts
+const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000
+export const BACKEND_URL = process.env.API_URL || process.env.NEXT_PUBLIC_API_URL || "http://localhost:8000"
+
+const UPLOAD_ROOT = path.join(tmpdir(), "clause-uploads")
+const UPLOAD_ID_PATTERN = /^[0-9a-f-]{36}$/
+
+export interface UploadMeta {
+  upload_id: string
+  name: string
+  size: number
+  content_type: string
+  chunk_size: number
+  sha256?: string
+  previous_version_id?: string
+  created_at: string
+}
+
+// The stand-in has no auth, so it only answers in development and when explicitly enabled
+export function isStandInEnabled(): boolean {
+  return process.env.NODE_ENV !== "production" && process.env.ENABLE_UPLOAD_STAND_IN === "true"
+}
+
+// Upload IDs come from the URL, so only well-formed ones may become paths
+function uploadDir(uploadId: string): string | null {
+  return UPLOAD_ID_PATTERN.test(uploadId) ? path.join(UPLOAD_ROOT, uploadId) : null
+}
+
+export function getChunkCount(meta: UploadMeta): number {
+  return Math.max(Math.ceil(meta.size / meta.chunk_size), 1)
+}
+
+export async function createUpload(
+  fields: Pick<UploadMeta, "name" | "size" | "content_type" | "sha256" | "previous_version_id">,
+): Promise<UploadMeta> {
+  await expireUploads()
+  const meta: UploadMeta = {
+    ...fields,
+    upload_id: randomUUID(),
+    chunk_size: CHUNK_SIZE,
+    created_at: new Date().toISOString(),
+  }
+  const dir = uploadDir(meta.upload_id)!
+  await mkdir(dir, { recursive: true })
+  await writeFile(path.join(dir, "meta.json"), JSON.stringify(meta))
+  return meta
+}
+
+export async function getUpload(uploadId: string): Promise<UploadMeta | null> {
+  const dir = uploadDir(uploadId)
+  if (!dir) return null
+  try {
+    return JSON.parse(await readFile(path.join(dir, "meta.json"), "utf8"))
+  } catch {
+    return null
+  }
+}
+
+export async function getReceivedChunks(uploadId: string): Promise<number[]> {
+  const dir = uploadDir(uploadId)
+  if (!dir) return []
+  const files = await readdir(dir)
+  return files
+    .filter((file) => file.endsWith(".part"))
+    .map((file) => Number.parseInt(file, 10))
+    .sort((a, b) => a - b)
+}
+
+// Chunks are written to a temp name first so a dropped request never leaves a short chunk behind
+export async function writeChunk(uploadId: string, index: number, data: Buffer): Promise<void> {
+  const dir = uploadDir(uploadId)!
+  const target = path.join(dir, `${index}.part`)
+  await writeFile(`${target}.tmp`, data)
+  await rename(`${target}.tmp`, target)
+}
+
+export async function readAssembledFile(meta: UploadMeta): Promise<Blob> {
+  const dir = uploadDir(meta.upload_id)!
+  const parts: Buffer[] = []
+  for (let index = 0; index < getChunkCount(meta); index++) {
+    parts.push(await readFile(path.join(dir, `${index}.part`)))
+  }
+  return new Blob(parts, { type: meta.content_type || "application/octet-stream" })
+}
+
+export async function deleteUpload(uploadId: string): Promise<void> {
+  const dir = uploadDir(uploadId)
+  if (dir) await rm(dir, { recursive: true, force: true })
+}
+
+// Writing a chunk updates its directory's modification time, which stands in for last activity
+async function expireUploads(): Promise<void> {
+  let entries: string[]
+  try {
+    entries = await readdir(UPLOAD_ROOT)
+  } catch {
+    return
+  }
+
+  const cutoff = Date.now() - UPLOAD_TTL_MS
+  for (const entry of entries) {
+    const dir = uploadDir(entry)
+    if (!dir) continue
+    try {
+      if ((await stat(dir)).mtimeMs < cutoff) await rm(dir, { recursive: true, force: true })
+    } catch (error) {
+      console.error("Error expiring upload:", error)
+    }
+  }
+}
@@ -1,40 +1,67 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { useParams, useRouter } from "next/navigation"
-import { ArrowLeft, FileText, FileIcon as FileWord, Loader2 } from "lucide-react"
+import { ArrowLeft, FileText, FileIcon as FileWord, FileJson, Loader2 } from "lucide-react"
 import Link from "next/link"
 import { Button } from "@/components/ui/button"
 import { DocumentViewer } from "@/components/document-viewer"
 import { AnnotationDetail } from "@/components/annotation-detail"
+import { useClauseTaxonomy } from "@/components/clause-taxonomy-provider"
 import { Skeleton } from "@/components/ui/skeleton"
 import { useToast } from "@/components/ui/use-toast"
-import { fetchDocumentAnalysis, DocumentAnalysis, convertClauseTypeToFrontendFormat } from "@/lib/api"
-
-// Clause configuration with colors
-const CLAUSES = {
-  "force-majeure": { name: "Force Majeure", color: "#6366F1" }, // Indigo
-  "limitation-of-liability": { name: "Limitation of Liability", color: "#0EA5E9" }, // Sky blue
-  "assignment": { name: "Assignment", color: "#F97316" }, // Orange
-  "severability": { name: "Severability", color: "#EC4899" }, // Pink
-  "no-waiver": { name: "No Waiver", color: "#14B8A6" }, // Teal
-}
+import {
+  fetchDocumentAnalysis,
+  fetchUserAnnotations,
+  createUserAnnotation,
+  deleteUserAnnotation,
+  updateUserAnnotation,
+  fetchClauseReviews,
+  saveClauseReview,
+  deleteClauseReview,
+  fetchSpanCorrections,
+  saveSpanCorrection,
+  deleteSpanCorrection,
+  getDocumentNotes,
+  deleteNote,
+  getClauseDisplayName,
+  getAnnotationId,
+  getEffectiveClauseType,
+  convertClauseTypeToFrontendFormat,
+  type ClausePosition,
+  type ClauseReview,
+  type DocumentAnnotation,
+  type ReviewDecision,
+  type SpanCorrection,
+  type UserAnnotation,
+} from "@/lib/api"
+import { createAnnotatedDocx } from "@/lib/docx-export"
+import { createAnnotatedPdf } from "@/lib/pdf-export"
+import { createFeedbackJsonl, createFeedbackRecords } from "@/lib/feedback-export"
+import { downloadBlob } from "@/lib/utils"
 
 export default function DocumentPage() {
   const params = useParams()
   const router = useRouter()
   const { toast } = useToast()
+  const { clauses } = useClauseTaxonomy()
   const [document, setDocument] = useState<{
     id: string;
     name: string;
     content: string;
     content_type?: string;
-    clauses: any[];
+    clauses: DocumentAnnotation[];
   } | null>(null);
   const [loading, setLoading] = useState(true)
-  const [selectedAnnotation, setSelectedAnnotation] = useState<any | null>(null)
-  const [userAnnotations, setUserAnnotations] = useState<any[]>([])
+  const [selectedAnnotation, setSelectedAnnotation] = useState<DocumentAnnotation | null>(null)
+  const [userAnnotations, setUserAnnotations] = useState<UserAnnotation[]>([])
+  // Reviewer decisions on AI findings, keyed by annotation ID
+  const [reviews, setReviews] = useState<Record<string, ClauseReview>>({})
+  // Reviewer span corrections on AI findings, keyed by annotation ID
+  const [corrections, setCorrections] = useState<Record<string, SpanCorrection>>({})
+  const [adjustingAnnotation, setAdjustingAnnotation] = useState<DocumentAnnotation | null>(null)
   const [error, setError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState<"word" | "pdf" | null>(null)
 
   useEffect(() => {
     // Fetch the document data
@@ -49,7 +76,23 @@ export default function DocumentPage() {
         }
         
         const documentId = Array.isArray(params.id) ? params.id[0] : params.id
-        const analysisData = await fetchDocumentAnalysis(documentId)
+        // Reviewer annotations and decisions are loaded alongside the analysis; the
+        // analysis is still usable if they cannot be fetched
+        const [analysisData, savedAnnotations, savedReviews, savedCorrections] = await Promise.all([
+          fetchDocumentAnalysis(documentId),
+          fetchUserAnnotations(documentId).catch((error) => {
+            console.error("Error fetching user annotations:", error)
+            return []
+          }),
+          fetchClauseReviews(documentId).catch((error) => {
+            console.error("Error fetching reviews:", error)
+            return []
+          }),
+          fetchSpanCorrections(documentId).catch((error) => {
+            console.error("Error fetching span corrections:", error)
+            return []
+          }),
+        ])
         
         if (analysisData.status === 'processing') {
           toast({
@@ -84,6 +127,9 @@ export default function DocumentPage() {
           content_type: analysisData.content_type,
           clauses: documentClauses
         })
+        setUserAnnotations(savedAnnotations)
+        setReviews(Object.fromEntries(savedReviews.map((review) => [review.annotation_id, review])))
+        setCorrections(Object.fromEntries(savedCorrections.map((correction) => [correction.annotation_id, correction])))
         
         setLoading(false)
       } catch (error) {
@@ -96,41 +142,216 @@ export default function DocumentPage() {
     fetchDocument()
   }, [params.id, router, toast])
 
-  const handleAnnotationClick = (annotation: any) => {
+  // AI findings with their current review decision and span correction attached
+  const reviewedClauses = useMemo(
+    () =>
+      (document?.clauses || []).map((clause) => ({
+        ...clause,
+        review: reviews[getAnnotationId(clause)],
+        correction: corrections[getAnnotationId(clause)],
+      })),
+    [document, reviews, corrections],
+  )
+
+  // Look the selection up again so the detail panel reflects saved changes
+  const selected = selectedAnnotation
+    ? [...reviewedClauses, ...userAnnotations].find(
+        (annotation) => getAnnotationId(annotation) === getAnnotationId(selectedAnnotation),
+      ) || selectedAnnotation
+    : null
+
+  const handleAnnotationClick = (annotation: DocumentAnnotation) => {
     setSelectedAnnotation(annotation)
   }
 
-  const handleDownloadWord = () => {
-    toast({
-      title: "Word document download started",
-      description: "Your document is being prepared for download as Word Document.",
-    })
+  const handleReview = async (annotation: DocumentAnnotation, decision: ReviewDecision | null, relabeledType?: string) => {
+    if (!document) return
+
+    const annotationId = getAnnotationId(annotation)
+    try {
+      if (decision) {
+        const review = await saveClauseReview(document.id, annotationId, decision, relabeledType)
+        setReviews((prev) => ({ ...prev, [annotationId]: review }))
+      } else {
+        await deleteClauseReview(document.id, annotationId)
+        setReviews((prev) => {
+          const { [annotationId]: _removed, ...rest } = prev
+          return rest
+        })
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your review decision. Please try again",
+        variant: "destructive",
+      })
+    }
   }
 
-  const handleDownloadPdf = () => {
-    toast({
-      title: "PDF download started",
-      description: "Your document is being prepared for download as PDF.",
-    })
+  const exportDocument = async (
+    format: "word" | "pdf",
+    label: string,
+    extension: string,
+    build: typeof createAnnotatedDocx,
+    description: string,
+  ) => {
+    if (!document) return
+
+    setExporting(format)
+    try {
+      // Notes enrich the export; the document is still useful without them
+      const notes = await getDocumentNotes(document.id).catch((error) => {
+        console.error("Error fetching notes for export:", error)
+        return []
+      })
+
+      const blob = await build({
+        name: document.name,
+        content: document.content,
+        contentType: document.content_type,
+        // Findings rejected as false positives are left out of exports
+        annotations: [...reviewedClauses, ...userAnnotations].filter(
+          (annotation) => annotation.review?.decision !== "rejected",
+        ),
+        notes,
+      })
+      downloadBlob(blob, `${document.name}.${extension}`)
+
+      toast({
+        title: `${label} downloaded`,
+        description,
+      })
+    } catch (error) {
+      console.error(`Error exporting ${label}:`, error)
+      toast({
+        title: "Export failed",
+        description: `The ${label} could not be generated. Please try again.`,
+        variant: "destructive",
+      })
+    } finally {
+      setExporting(null)
+    }
   }
 
-  const addUserAnnotation = (text: string, startPos: number, endPos: number) => {
-    const newAnnotation = {
-      type: "review-comments",
-      selected_text: text,
-      reason: "User annotation",
-      confidence: 100,
-      position: { start: startPos, end: endPos },
-      user: true,
+  const handleDownloadWord = () =>
+    exportDocument("word", "Word document", "docx", createAnnotatedDocx, "Clause findings and notes are included as Word comments.")
+
+  const handleDownloadPdf = () =>
+    exportDocument("pdf", "PDF", "pdf", createAnnotatedPdf, "Highlighted pages are followed by a clause appendix.")
+
+  const handleExportFeedback = () => {
+    if (!document) return
+
+    const annotations = [...reviewedClauses, ...userAnnotations]
+    const recordCount = createFeedbackRecords(document.id, annotations).length
+    if (recordCount === 0) {
+      toast({
+        title: "No feedback to export",
+        description: "Accept, reject, relabel or adjust findings to produce feedback records.",
+      })
+      return
     }
 
-    setUserAnnotations((prev) => [...prev, newAnnotation])
+    downloadBlob(createFeedbackJsonl(document.id, annotations), `${document.name}-feedback.jsonl`)
     toast({
-      title: "Comment added",
-      description: "Your review comment has been added to the document.",
+      title: "Feedback exported",
+      description: `${recordCount} reviewer correction${recordCount > 1 ? "s" : ""} exported as JSONL.`,
     })
   }
 
+  const addUserAnnotation = async (text: string, startPos: number, endPos: number, clauseType: string) => {
+    if (!document) return
+
+    try {
+      const newAnnotation = await createUserAnnotation(document.id, {
+        type: clauseType,
+        selected_text: text,
+        reason: "User annotation",
+        position: { start: startPos, end: endPos },
+      })
+
+      setUserAnnotations((prev) => [...prev, newAnnotation])
+      toast({
+        title: "Annotation added",
+        description: `The selection has been tagged as ${getClauseDisplayName(clauseType)}.`,
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save your comment. Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleSpanCorrection = async (
+    annotation: DocumentAnnotation,
+    correction: { position: ClausePosition; selectedText: string } | null,
+  ) => {
+    if (!document) return
+
+    const annotationId = getAnnotationId(annotation)
+    try {
+      if (annotation.user && correction) {
+        // Reviewer annotations have no AI span to preserve, so they are updated in place
+        const updated = await updateUserAnnotation(document.id, annotationId, {
+          position: correction.position,
+          selected_text: correction.selectedText,
+        })
+        setUserAnnotations((prev) => prev.map((existing) => (existing.id === updated.id ? updated : existing)))
+      } else if (correction) {
+        const saved = await saveSpanCorrection(document.id, annotationId, correction.position, correction.selectedText)
+        setCorrections((prev) => ({ ...prev, [annotationId]: saved }))
+      } else {
+        await deleteSpanCorrection(document.id, annotationId)
+        setCorrections((prev) => {
+          const { [annotationId]: _removed, ...rest } = prev
+          return rest
+        })
+      }
+
+      setAdjustingAnnotation(null)
+      toast({
+        title: correction ? "Span updated" : "Span reset",
+        description: correction
+          ? "The corrected span has been saved."
+          : "The finding is back to the span detected by the AI.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save the span correction. Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const removeUserAnnotation = async (annotationId: string) => {
+    if (!document) return
+
+    try {
+      // Notes are keyed by annotation ID, so they would otherwise outlive the annotation
+      const notes = await getDocumentNotes(document.id)
+      await Promise.all(
+        notes.filter((note) => note.annotation_id === annotationId).map((note) => deleteNote(document.id, note.id)),
+      )
+      await deleteUserAnnotation(document.id, annotationId)
+
+      setUserAnnotations((prev) => prev.filter((annotation) => annotation.id !== annotationId))
+      setSelectedAnnotation(null)
+      toast({
+        title: "Comment deleted",
+        description: "Your review comment has been removed from the document.",
+      })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete your comment. Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
   return (
     <div className="container py-8">
       <div className="mb-8 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
@@ -156,20 +377,39 @@ export default function DocumentPage() {
               variant="outline"
               size="sm"
               onClick={handleDownloadWord}
+              disabled={exporting !== null}
               className="flex items-center gap-1 bg-white text-slate-700 dark:bg-transparent dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-700"
             >
-              <FileWord className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+              {exporting === "word" ? (
+                <Loader2 className="h-4 w-4 animate-spin text-blue-600 dark:text-blue-400" />
+              ) : (
+                <FileWord className="h-4 w-4 text-blue-600 dark:text-blue-400" />
+              )}
               Word Document
             </Button>
             <Button
               variant="outline"
               size="sm"
               onClick={handleDownloadPdf}
+              disabled={exporting !== null}
               className="flex items-center gap-1 bg-white text-slate-700 dark:bg-transparent dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-700"
             >
-              <FileText className="h-4 w-4 text-red-600 dark:text-red-400" />
+              {exporting === "pdf" ? (
+                <Loader2 className="h-4 w-4 animate-spin text-red-600 dark:text-red-400" />
+              ) : (
+                <FileText className="h-4 w-4 text-red-600 dark:text-red-400" />
+              )}
               PDF
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleExportFeedback}
+              className="flex items-center gap-1 bg-white text-slate-700 dark:bg-transparent dark:text-slate-100 dark:border-slate-600 dark:hover:bg-slate-700"
+            >
+              <FileJson className="h-4 w-4 text-emerald-600 dark:text-emerald-400" />
+              Export feedback
+            </Button>
           </div>
         )}
       </div>
@@ -194,25 +434,35 @@ export default function DocumentPage() {
           </Button>
         </div>
       ) : document ? (
-        <div className="space-y-8">
-          <DocumentViewer
-            document={document}
-            clauses={CLAUSES}
-            onAnnotationClick={handleAnnotationClick}
-            userAnnotations={userAnnotations}
-            onAddAnnotation={addUserAnnotation}
-          />
-
-          {selectedAnnotation && (
-            <AnnotationDetail
-              annotation={selectedAnnotation}
-              clauseType={convertClauseTypeToFrontendFormat(selectedAnnotation.type)}
-              clauses={CLAUSES}
-              onClose={() => setSelectedAnnotation(null)}
-              documentId={params.id as string}
-            />
-          )}
-        </div>
+        <DocumentViewer
+          document={{ ...document, clauses: reviewedClauses }}
+          clauses={clauses}
+          onAnnotationClick={handleAnnotationClick}
+          userAnnotations={userAnnotations}
+          onAddAnnotation={addUserAnnotation}
+          adjustingAnnotation={adjustingAnnotation}
+          onAdjustSpan={handleSpanCorrection}
+          onCancelAdjust={() => setAdjustingAnnotation(null)}
+          onReview={(annotation, decision) => handleReview(annotation, decision)}
+          detailPanel={
+            selected && (
+              <AnnotationDetail
+                // Remount per annotation so the note editor never shows another annotation's note
+                key={getAnnotationId(selected)}
+                annotation={selected}
+                clauseType={convertClauseTypeToFrontendFormat(getEffectiveClauseType(selected))}
+                clauses={clauses}
+                onClose={() => setSelectedAnnotation(null)}
+                onDelete={selected.user ? removeUserAnnotation : undefined}
+                onReview={
+                  selected.user ? undefined : (decision, relabeledType) => handleReview(selected, decision, relabeledType)
+                }
+                onAdjustSpan={() => setAdjustingAnnotation(selected)}
+                documentId={params.id as string}
+              />
+            )
+          }
+        />
       ) : null}
     </div>
   )
@@ -3,6 +3,7 @@ import { Inter, Nunito, DM_Sans } from "next/font/google"
 import { Toaster } from "@/components/ui/toaster"
 import { Header } from "@/components/header"
 import { ThemeProvider } from "@/components/theme-provider"
+import { ClauseTaxonomyProvider } from "@/components/clause-taxonomy-provider"
 import "@/app/globals.css"
 
 // Import Darker Grotesque font
@@ -42,11 +43,13 @@ export default function RootLayout({
           enableSystem
           disableTransitionOnChange
         >
-          <div className="flex min-h-screen flex-col bg-background text-foreground">
-            <Header />
-            <main className="flex-1 bg-slate-50 dark:bg-slate-900">{children}</main>
-          </div>
-          <Toaster />
+          <ClauseTaxonomyProvider>
+            <div className="flex min-h-screen flex-col bg-background text-foreground">
+              <Header />
+              <main className="flex-1 bg-slate-50 dark:bg-slate-900">{children}</main>
+            </div>
+            <Toaster />
+          </ClauseTaxonomyProvider>
         </ThemeProvider>
       </body>
     </html>
@@ -1,40 +1,69 @@
 "use client"
 
-import { useState, useEffect } from "react"
-import { AlertCircle, CheckCircle, Edit3, Check, X } from "lucide-react"
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog"
+import { useState, useEffect, useMemo } from "react"
+import { AlertCircle, CheckCircle, Edit3, Check, X, Trash2, Tag, RotateCcw, MoveHorizontal } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Button } from "@/components/ui/button"
 import { Badge } from "@/components/ui/badge"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/components/ui/use-toast"
 import { cn } from "@/lib/utils"
-import { addNoteToAnnotation, getNoteForAnnotation, updateNote } from "@/lib/api"
+import { ClauseTypePicker } from "@/components/clause-type-picker"
+import { useClauseTaxonomy } from "@/components/clause-taxonomy-provider"
+import {
+  addNoteToAnnotation,
+  convertClauseTypeToBackendFormat,
+  getAnnotationId,
+  getClauseDisplayName,
+  getNoteForAnnotation,
+  updateNote,
+  type DocumentAnnotation,
+  type ReviewDecision,
+} from "@/lib/api"
+import { describeClauseType, toClauseConfig, type ClauseConfig } from "@/lib/clause-taxonomy"
 
 interface AnnotationDetailProps {
-  annotation: {
-    type: string
-    selected_text: string
-    reason: string
-    position?: { start: number; end: number }
-    confidence: number
-    user?: boolean
-    id?: string
-  }
+  annotation: DocumentAnnotation
   clauseType: string
-  clauses: Record<string, { name: string; color: string }>
+  clauses: ClauseConfig
   onClose: () => void
+  onDelete?: (annotationId: string) => void
+  onReview?: (decision: ReviewDecision | null, relabeledType?: string) => void
+  onAdjustSpan?: () => void
   documentId?: string
 }
 
-export function AnnotationDetail({ annotation, clauseType, clauses, onClose, documentId }: AnnotationDetailProps) {
+export function AnnotationDetail({
+  annotation,
+  clauseType,
+  clauses,
+  onClose,
+  onDelete,
+  onReview,
+  onAdjustSpan,
+  documentId,
+}: AnnotationDetailProps) {
   const { toast } = useToast()
   const [comment, setComment] = useState("")
   const [mode, setMode] = useState<"view" | "edit">("view")
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [existingNoteId, setExistingNoteId] = useState<number | null>(null)
+  const [relabelOpen, setRelabelOpen] = useState(false)
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false)
+  const { clauseTypes } = useClauseTaxonomy()
+  // Findings can only be relabeled to real clause types, never to the reviewer-only comment category
+  const relabelClauses = useMemo(() => toClauseConfig(clauseTypes), [clauseTypes])
   
-  // Create an annotation ID if not provided
-  const annotationId = annotation.id || `${annotation.type}-${annotation.position?.start}`
+  const annotationId = getAnnotationId(annotation)
   
   // Fetch any existing note when the component mounts
   useEffect(() => {
@@ -92,7 +121,7 @@ export function AnnotationDetail({ annotation, clauseType, clauses, onClose, doc
     }
   }
   
-  const clauseInfo = clauses[clauseType]
+  const clauseInfo = clauses[clauseType] || describeClauseType(clauseType)
   
   const confidenceLevel =
     annotation.confidence >= 90
@@ -112,176 +141,285 @@ export function AnnotationDetail({ annotation, clauseType, clauses, onClose, doc
       <AlertCircle className="h-5 w-5 text-red-500" />
     )
 
-  return (
-    <Dialog open={true} onOpenChange={onClose}>
-      <DialogContent className="sm:max-w-lg">
-        <DialogHeader>
-          <DialogTitle className="flex items-center gap-2 font-nunito text-xl">
-            <div className="h-4 w-4 rounded-sm" style={{ backgroundColor: clauseInfo.color }} />
-            <span>
-              {clauseInfo.name} {annotation.user ? "Comment" : "Clause"}
-            </span>
-            {annotation.user && (
-              <Badge className="ml-2 bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
-                User Annotation
-              </Badge>
-            )}
-          </DialogTitle>
-        </DialogHeader>
+  const title = (
+    <>
+      <div className="h-4 w-4 shrink-0 rounded-sm" style={{ backgroundColor: clauseInfo.color }} />
+      <span>
+        {clauseInfo.name} {annotation.user ? "Comment" : "Clause"}
+      </span>
+      {annotation.user && (
+        <Badge className="ml-2 bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300">
+          User Annotation
+        </Badge>
+      )}
+    </>
+  )
 
-        <div className="space-y-5">
-          <div className="rounded-md bg-slate-50 dark:bg-slate-800 p-4">
-            <div className="mb-1 text-sm font-medium text-slate-700 dark:text-slate-300">
-              {annotation.user ? "Comment Text" : "Detected Text"}
-            </div>
-            <div
-              className="custom-scrollbar max-h-40 overflow-y-auto text-sm text-slate-600 dark:text-slate-300"
-              style={{
-                borderLeft: `3px solid ${clauseInfo.color}`,
-                paddingLeft: "12px",
-              }}
-            >
-              {annotation.selected_text}
+  const description = clauseInfo.description ? (
+    <>
+      {clauseInfo.category} · <span className="capitalize">{clauseInfo.severity}</span> severity — {clauseInfo.description}
+    </>
+  ) : null
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-1.5">
+        <h3 className="flex items-center gap-2 font-nunito text-lg font-semibold text-slate-800 dark:text-white">{title}</h3>
+        {description && <p className="text-sm text-slate-500 dark:text-slate-400">{description}</p>}
+      </div>
+      <div className="space-y-5">
+        <div className="rounded-md bg-slate-50 dark:bg-slate-800 p-4">
+          <div className="mb-1 flex items-center justify-between">
+            <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              {annotation.user ? "Comment Text" : annotation.correction ? "Corrected Text" : "Detected Text"}
             </div>
+            {onAdjustSpan && annotation.position && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onAdjustSpan}
+                className="h-7 gap-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              >
+                <MoveHorizontal className="h-3.5 w-3.5" />
+                Adjust span
+              </Button>
+            )}
           </div>
-
-          {!annotation.user && (
-            <div>
-              <div className="mb-1 text-sm font-medium text-slate-700 dark:text-slate-300">AI Reasoning</div>
-              <div className="custom-scrollbar max-h-40 overflow-y-auto rounded-md bg-slate-50 dark:bg-slate-800 p-4 text-sm text-slate-600 dark:text-slate-300">
-                {annotation.reason}
+          <div
+            className="custom-scrollbar max-h-40 overflow-y-auto text-sm text-slate-600 dark:text-slate-300"
+            style={{
+              borderLeft: `3px solid ${clauseInfo.color}`,
+              paddingLeft: "12px",
+            }}
+          >
+            {annotation.correction?.selected_text ?? annotation.selected_text}
+          </div>
+          {annotation.correction && (
+            <div className="mt-3">
+              <div className="mb-1 text-xs font-medium text-slate-500 dark:text-slate-400">Original AI Span</div>
+              <div className="custom-scrollbar max-h-24 overflow-y-auto border-l-[3px] border-dashed border-slate-300 pl-3 text-xs text-slate-500 dark:border-slate-600 dark:text-slate-400">
+                {annotation.selected_text}
               </div>
             </div>
           )}
+        </div>
 
-          {!annotation.user && (
-            <div>
-              <div className="mb-2 text-sm font-medium text-slate-700 dark:text-slate-300">Confidence Assessment</div>
+        {!annotation.user && (
+          <div>
+            <div className="mb-1 text-sm font-medium text-slate-700 dark:text-slate-300">AI Reasoning</div>
+            <div className="custom-scrollbar max-h-40 overflow-y-auto rounded-md bg-slate-50 dark:bg-slate-800 p-4 text-sm text-slate-600 dark:text-slate-300">
+              {annotation.reason}
+            </div>
+          </div>
+        )}
 
-              <div className="flex items-center gap-3 rounded-md bg-slate-50 dark:bg-slate-800 p-4">
-                <div className="flex h-12 w-12 items-center justify-center rounded-full bg-white dark:bg-slate-700 shadow-sm">
-                  {confidenceIcon}
-                </div>
+        {!annotation.user && (
+          <div>
+            <div className="mb-2 text-sm font-medium text-slate-700 dark:text-slate-300">Confidence Assessment</div>
 
-                <div>
-                  <div className="flex items-center gap-2">
-                    <span className="font-medium text-slate-800 dark:text-slate-200">{confidenceLevel} Confidence</span>
-                    <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:hover:bg-blue-900/40">
-                      {Math.round(annotation.confidence)}%
-                    </Badge>
-                  </div>
+            <div className="flex items-center gap-3 rounded-md bg-slate-50 dark:bg-slate-800 p-4">
+              <div className="flex h-12 w-12 items-center justify-center rounded-full bg-white dark:bg-slate-700 shadow-sm">
+                {confidenceIcon}
+              </div>
 
-                  <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
-                    {annotation.confidence < 40
-                      ? "Very low confidence detection. Manual review strongly recommended."
-                      : annotation.confidence < 70
-                        ? "Low confidence detection. Manual review recommended."
-                        : annotation.confidence < 90
-                          ? "Medium confidence detection. Consider reviewing."
-                          : "High confidence detection."}
-                  </div>
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-slate-800 dark:text-slate-200">{confidenceLevel} Confidence</span>
+                  <Badge className="bg-blue-100 text-blue-800 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-300 dark:hover:bg-blue-900/40">
+                    {Math.round(annotation.confidence)}%
+                  </Badge>
                 </div>
-              </div>
 
-              <div className="mt-3">
-                <div className="flex h-2 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
-                  <div
-                    className="h-full transition-all duration-500"
-                    style={{
-                      width: `${annotation.confidence}%`,
-                      backgroundColor: clauseInfo.color,
-                    }}
-                  />
+                <div className="mt-1 text-xs text-slate-500 dark:text-slate-400">
+                  {annotation.confidence < 40
+                    ? "Very low confidence detection. Manual review strongly recommended."
+                    : annotation.confidence < 70
+                      ? "Low confidence detection. Manual review recommended."
+                      : annotation.confidence < 90
+                        ? "Medium confidence detection. Consider reviewing."
+                        : "High confidence detection."}
                 </div>
               </div>
             </div>
-          )}
-          
-          {/* Comment section */}
-          <div>
-            <div className="flex justify-between items-center mb-1">
-              <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                Notes
+
+            <div className="mt-3">
+              <div className="flex h-2 w-full overflow-hidden rounded-full bg-slate-200 dark:bg-slate-700">
+                <div
+                  className="h-full transition-all duration-500"
+                  style={{
+                    width: `${annotation.confidence}%`,
+                    backgroundColor: clauseInfo.color,
+                  }}
+                />
               </div>
-              {mode === "view" && (
+            </div>
+          </div>
+        )}
+
+        {onReview && (
+          <div>
+            <div className="mb-2 flex items-center justify-between">
+              <div className="text-sm font-medium text-slate-700 dark:text-slate-300">Review Decision</div>
+              {annotation.review && (
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setMode("edit")}
+                  onClick={() => onReview(null)}
                   className="h-7 gap-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
                 >
-                  <Edit3 className="h-3.5 w-3.5" />
-                  {existingNoteId ? "Edit" : "Add"}
+                  <RotateCcw className="h-3.5 w-3.5" />
+                  Reset
                 </Button>
               )}
             </div>
-            
-            {mode === "edit" ? (
-              <>
-                <Textarea 
-                  placeholder="Add your notes here..."
-                  value={comment}
-                  onChange={(e) => setComment(e.target.value)}
-                  className="min-h-[80px] text-sm resize-none bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200"
-                />
-                <div className="flex justify-end space-x-2 mt-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => {
-                      setMode("view")
-                      // Reset to the saved comment if there was one
-                      if (existingNoteId) {
-                        getNoteForAnnotation(documentId || "", annotationId)
-                          .then(note => {
-                            if (note) setComment(note.text);
-                          })
-                          .catch(console.error);
-                      } else {
-                        setComment("")
-                      }
-                    }}
-                    className="h-8"
-                    disabled={isSubmitting}
-                  >
-                    Cancel
-                  </Button>
-                  <Button 
-                    variant="default" 
-                    size="sm" 
-                    onClick={saveComment} 
-                    className="h-8"
-                    disabled={isSubmitting}
-                  >
-                    {isSubmitting ? "Saving..." : "Save Note"}
-                  </Button>
-                </div>
-              </>
-            ) : (
-              <div className="bg-slate-50 dark:bg-slate-900 p-3 rounded-md text-slate-700 dark:text-slate-300 text-sm min-h-[60px]">
-                {comment ? (
-                  comment
-                ) : (
-                  <span className="text-slate-400">No notes added yet</span>
+            <div className="flex flex-wrap gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onReview("accepted")}
+                className={cn(
+                  "gap-1",
+                  annotation.review?.decision === "accepted" &&
+                    "border-green-500 bg-green-50 text-green-700 dark:bg-green-900/30 dark:text-green-400",
                 )}
-              </div>
+              >
+                <Check className="h-4 w-4" />
+                Accept
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => onReview("rejected")}
+                className={cn(
+                  "gap-1",
+                  annotation.review?.decision === "rejected" &&
+                    "border-red-500 bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-400",
+                )}
+              >
+                <X className="h-4 w-4" />
+                Reject
+              </Button>
+              <ClauseTypePicker
+                clauses={relabelClauses}
+                open={relabelOpen}
+                onOpenChange={setRelabelOpen}
+                onSelect={(key) => onReview("relabeled", convertClauseTypeToBackendFormat(key))}
+              >
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className={cn(
+                    "gap-1",
+                    annotation.review?.decision === "relabeled" &&
+                      "border-amber-500 bg-amber-50 text-amber-700 dark:bg-amber-900/30 dark:text-amber-400",
+                  )}
+                >
+                  <Tag className="h-4 w-4" />
+                  {annotation.review?.decision === "relabeled" && annotation.review.relabeled_type
+                    ? `Relabeled as ${getClauseDisplayName(annotation.review.relabeled_type)}`
+                    : "Relabel"}
+                </Button>
+              </ClauseTypePicker>
+            </div>
+          </div>
+        )}
+
+        {/* Comment section */}
+        <div>
+          <div className="flex justify-between items-center mb-1">
+            <div className="text-sm font-medium text-slate-700 dark:text-slate-300">
+              Notes
+            </div>
+            {mode === "view" && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setMode("edit")}
+                className="h-7 gap-1 text-slate-500 dark:text-slate-400 hover:text-slate-700 dark:hover:text-slate-200"
+              >
+                <Edit3 className="h-3.5 w-3.5" />
+                {existingNoteId ? "Edit" : "Add"}
+              </Button>
             )}
           </div>
+
+          {mode === "edit" ? (
+            <>
+              <Textarea 
+                placeholder="Add your notes here..."
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                className="min-h-[80px] text-sm resize-none bg-white dark:bg-slate-800 border-slate-200 dark:border-slate-700 text-slate-800 dark:text-slate-200"
+              />
+              <div className="flex justify-end space-x-2 mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    setMode("view")
+                    // Reset to the saved comment if there was one
+                    if (existingNoteId) {
+                      getNoteForAnnotation(documentId || "", annotationId)
+                        .then(note => {
+                          if (note) setComment(note.text);
+                        })
+                        .catch(console.error);
+                    } else {
+                      setComment("")
+                    }
+                  }}
+                  className="h-8"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </Button>
+                <Button 
+                  variant="default" 
+                  size="sm" 
+                  onClick={saveComment} 
+                  className="h-8"
+                  disabled={isSubmitting}
+                >
+                  {isSubmitting ? "Saving..." : "Save Note"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <div className="bg-slate-50 dark:bg-slate-900 p-3 rounded-md text-slate-700 dark:text-slate-300 text-sm min-h-[60px]">
+              {comment ? (
+                comment
+              ) : (
+                <span className="text-slate-400">No notes added yet</span>
+              )}
+            </div>
+          )}
         </div>
+      </div>
 
-        <div className="flex justify-between pt-2 border-t border-slate-200 dark:border-slate-700">
-          <Badge
-            variant={annotation.user ? "default" : "outline"}
-            className={cn(
-              "px-2 py-1 bg-transparent",
-              annotation.user
-                ? "border-red-200 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
-                : "border-slate-200 text-slate-700 dark:border-slate-700 dark:text-slate-400"
-            )}
-          >
-            {annotation.user ? "User Annotation" : "AI Detected"}
-          </Badge>
-          
+      <div className="flex justify-between pt-2 border-t border-slate-200 dark:border-slate-700">
+        <Badge
+          variant={annotation.user ? "default" : "outline"}
+          className={cn(
+            "px-2 py-1 bg-transparent",
+            annotation.user
+              ? "border-red-200 bg-red-50 text-red-700 dark:border-red-800 dark:bg-red-900/20 dark:text-red-400"
+              : "border-slate-200 text-slate-700 dark:border-slate-700 dark:text-slate-400"
+          )}
+        >
+          {annotation.user ? "User Annotation" : "AI Detected"}
+        </Badge>
+
+        <div className="flex gap-2">
+          {onDelete && (
+            <Button
+              variant="outline"
+              onClick={() => setConfirmDeleteOpen(true)}
+              className="gap-1 border-red-200 text-red-700 hover:bg-red-50 hover:text-red-800 dark:border-red-800 dark:text-red-400 dark:hover:bg-red-900/30"
+            >
+              <Trash2 className="h-4 w-4" />
+              Delete
+            </Button>
+          )}
           <Button 
             onClick={onClose} 
             className={`${annotation.user ? "ml-auto" : ""} bg-blue-700 hover:bg-blue-800 dark:bg-blue-600 dark:hover:bg-blue-700`}
@@ -289,8 +427,26 @@ export function AnnotationDetail({ annotation, clauseType, clauses, onClose, doc
             Close
           </Button>
         </div>
-      </DialogContent>
-    </Dialog>
+      </div>
+
+      <AlertDialog open={confirmDeleteOpen} onOpenChange={setConfirmDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this annotation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The annotation and any note on it will be removed from the document for every reviewer. This cannot be
+              undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => onDelete?.(annotationId)} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
   )
 }
 
@@ -0,0 +1,61 @@
+"use client"
+
+import { cn } from "@/lib/utils"
+
+export interface MinimapMark {
+  id: string
+  start: number
+  end: number
+  color: string
+  label: string
+}
+
+interface ClauseMinimapProps {
+  marks: MinimapMark[]
+  // Offset range of the whole document, across all pages
+  documentStart: number
+  documentEnd: number
+  // Offset range currently on screen, drawn as a viewport indicator
+  viewport?: { start: number; end: number }
+  onSelect: (id: string) => void
+  className?: string
+}
+
+// Minimum mark height so single-sentence clauses in long agreements stay clickable
+const MIN_MARK_HEIGHT_PX = 3
+
+export function ClauseMinimap({ marks, documentStart, documentEnd, viewport, onSelect, className }: ClauseMinimapProps) {
+  const length = Math.max(documentEnd - documentStart, 1)
+  const toPercent = (offset: number) => `${(Math.min(Math.max(offset - documentStart, 0), length) / length) * 100}%`
+
+  return (
+    <div
+      className={cn("relative w-3 rounded-full bg-slate-100 dark:bg-slate-900/60", className)}
+      role="navigation"
+      aria-label="Clause heat map"
+    >
+      {viewport && (
+        <div
+          className="absolute inset-x-0 rounded-sm bg-slate-300/60 dark:bg-slate-600/50"
+          style={{ top: toPercent(viewport.start), height: `calc(${toPercent(viewport.end)} - ${toPercent(viewport.start)})` }}
+          aria-hidden="true"
+        />
+      )}
+      {marks.map((mark) => (
+        <button
+          key={mark.id}
+          type="button"
+          className="absolute inset-x-0 rounded-sm opacity-80 transition-opacity hover:opacity-100 focus-visible:outline focus-visible:outline-2 focus-visible:outline-blue-500"
+          style={{
+            top: toPercent(mark.start),
+            height: `max(${MIN_MARK_HEIGHT_PX}px, calc(${toPercent(mark.end)} - ${toPercent(mark.start)}))`,
+            backgroundColor: mark.color,
+          }}
+          title={mark.label}
+          aria-label={mark.label}
+          onClick={() => onSelect(mark.id)}
+        />
+      ))}
+    </div>
+  )
+}
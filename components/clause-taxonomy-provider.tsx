@@ -0,0 +1,53 @@
+"use client"
+
+import { createContext, useContext, useEffect, useMemo, useState } from "react"
+import type React from "react"
+import { fetchClauseTypes } from "@/lib/api"
+import {
+  DEFAULT_CLAUSE_TYPES,
+  REVIEW_COMMENT_CLAUSE,
+  setClauseTypes,
+  toClauseConfig,
+  type ClauseConfig,
+  type ClauseType,
+} from "@/lib/clause-taxonomy"
+
+interface ClauseTaxonomyContextValue {
+  clauseTypes: ClauseType[]
+  // Display config for every clause type plus the reviewer "Review Comment" category
+  clauses: ClauseConfig
+}
+
+const ClauseTaxonomyContext = createContext<ClauseTaxonomyContextValue>({
+  clauseTypes: DEFAULT_CLAUSE_TYPES,
+  clauses: toClauseConfig([...DEFAULT_CLAUSE_TYPES, REVIEW_COMMENT_CLAUSE]),
+})
+
+export function ClauseTaxonomyProvider({ children }: { children: React.ReactNode }) {
+  const [clauseTypes, setLoadedClauseTypes] = useState<ClauseType[]>(DEFAULT_CLAUSE_TYPES)
+
+  // Load the backend taxonomy once; the local defaults stay in place if it is unavailable
+  useEffect(() => {
+    fetchClauseTypes()
+      .then((loaded) => {
+        if (loaded && loaded.length > 0) {
+          setClauseTypes(loaded)
+          setLoadedClauseTypes(loaded)
+        }
+      })
+      .catch(() => {
+        console.warn("Using the built-in clause taxonomy")
+      })
+  }, [])
+
+  const value = useMemo(
+    () => ({ clauseTypes, clauses: toClauseConfig([...clauseTypes, REVIEW_COMMENT_CLAUSE]) }),
+    [clauseTypes],
+  )
+
+  return <ClauseTaxonomyContext.Provider value={value}>{children}</ClauseTaxonomyContext.Provider>
+}
+
+export function useClauseTaxonomy() {
+  return useContext(ClauseTaxonomyContext)
+}
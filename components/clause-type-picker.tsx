@@ -0,0 +1,58 @@
+"use client"
+
+import type React from "react"
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command"
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover"
+import type { ClauseConfig } from "@/lib/clause-taxonomy"
+
+interface ClauseTypePickerProps {
+  clauses: ClauseConfig
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  onSelect: (clauseType: string) => void
+  children: React.ReactNode
+}
+
+export function ClauseTypePicker({ clauses, open, onOpenChange, onSelect, children }: ClauseTypePickerProps) {
+  // Group clause types by taxonomy category, keeping the registry order within each group
+  const categories = Object.entries(clauses).reduce<Record<string, Array<[string, ClauseConfig[string]]>>>(
+    (groups, entry) => {
+      const category = entry[1].category
+      groups[category] = [...(groups[category] || []), entry]
+      return groups
+    },
+    {},
+  )
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>{children}</PopoverTrigger>
+      <PopoverContent className="w-72 p-0" align="end">
+        <Command>
+          <CommandInput placeholder="Tag selection as..." />
+          <CommandList>
+            <CommandEmpty>No clause type found.</CommandEmpty>
+            {Object.entries(categories).map(([category, entries]) => (
+              <CommandGroup key={category} heading={category}>
+                {entries.map(([key, info]) => (
+                  <CommandItem
+                    key={key}
+                    value={`${info.name} ${category}`}
+                    onSelect={() => {
+                      onSelect(key)
+                      onOpenChange(false)
+                    }}
+                    className="flex items-center gap-2"
+                  >
+                    <div className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: info.color }} />
+                    <span>{info.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            ))}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -2,7 +2,7 @@
 
 import type React from "react"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { useRouter } from "next/navigation"
 import {
   AlertCircle,
@@ -18,32 +18,42 @@ import {
 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Checkbox } from "@/components/ui/checkbox"
-import { FileUploader } from "@/components/file-uploader"
+import { FileUploader, type FileUploadState, type PendingUpload } from "@/components/file-uploader"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
+import { ToastAction } from "@/components/ui/toast"
 import { useToast } from "@/components/ui/use-toast"
-import { cn } from "@/lib/utils"
-import { uploadDocument, fetchDocuments, deleteDocument, convertClauseTypeToFrontendFormat } from "@/lib/api"
+import { cn, runWithConcurrency } from "@/lib/utils"
+import {
+  uploadDocument,
+  fetchDocuments,
+  deleteDocument,
+  convertClauseTypeToFrontendFormat,
+  subscribeToDocumentStatus,
+  findDocumentByHash,
+  type Document,
+} from "@/lib/api"
 import { Badge } from "@/components/ui/badge"
+import { useClauseTaxonomy } from "@/components/clause-taxonomy-provider"
 
-// Clause configuration with colors
-const CLAUSES: Record<string, { name: string; color: string }> = {
-  "force-majeure": { name: "Force Majeure", color: "#6366F1" }, // Indigo
-  "limitation-of-liability": { name: "Limitation of Liability", color: "#0EA5E9" }, // Sky blue
-  "assignment": { name: "Assignment", color: "#F97316" }, // Orange
-  "severability": { name: "Severability", color: "#EC4899" }, // Pink
-  "no-waiver": { name: "No Waiver", color: "#14B8A6" }, // Teal
-}
+// Files uploaded at once from a single batch
+const UPLOAD_CONCURRENCY = 3
 
 export function DocumentDashboard() {
   const router = useRouter()
   const { toast } = useToast()
+  const { clauses } = useClauseTaxonomy()
   const [documents, setDocuments] = useState<any[]>([])
   const [isUploading, setIsUploading] = useState(false)
+  const [uploads, setUploads] = useState<FileUploadState[]>([])
+  const uploadControllersRef = useRef<Map<string, AbortController>>(new Map())
   const [isLoading, setIsLoading] = useState(true)
   const [selectedDocs, setSelectedDocs] = useState<string[]>([])
   const [selectAll, setSelectAll] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Documents uploaded from this tab, which get a toast when their analysis settles
+  const uploadedIdsRef = useRef<Set<string>>(new Set())
+  const documentsRef = useRef<any[]>([])
 
   // Fetch documents on component mount
   useEffect(() => {
@@ -64,32 +74,102 @@ export function DocumentDashboard() {
     getDocuments()
   }, [])
 
-  const handleFileUpload = async (files: File[]) => {
-    setIsUploading(true)
+  useEffect(() => {
+    documentsRef.current = documents
+  }, [documents])
 
-    try {
-      // Upload each file sequentially
-      for (const file of files) {
-        const newDoc = await uploadDocument(file)
-        
-        // Add the new document to the list
-        setDocuments((prev) => [newDoc, ...prev])
-        
+  // Keep rows in sync with the backend while anything is still being analyzed
+  const hasProcessing = documents.some((doc) => doc.status === "processing")
+
+  useEffect(() => {
+    if (!hasProcessing) return
+
+    const handleStatusUpdate = (update: Document) => {
+      const previous = documentsRef.current.find((doc) => doc.id === update.id)
+      if (!previous) return
+      if (previous.status === update.status && (update.clauses === undefined || previous.clauses?.join() === update.clauses.join())) return
+
+      setDocuments((prev) => prev.map((doc) => (doc.id === update.id ? { ...doc, ...update } : doc)))
+
+      if (update.status === "processing" || !uploadedIdsRef.current.has(update.id)) return
+      uploadedIdsRef.current.delete(update.id)
+
+      if (update.status === "completed") {
+        toast({
+          title: "Analysis complete",
+          description: `${previous.name} is ready to review.`,
+          action: (
+            <ToastAction altText="View analysis" onClick={() => router.push(`/documents/${update.id}`)}>
+              View analysis
+            </ToastAction>
+          ),
+        })
+      } else {
         toast({
-          title: "Document uploaded",
-          description: `${file.name} uploaded successfully and is being processed.`,
+          title: "Analysis failed",
+          description: `${previous.name} could not be analyzed. Please try uploading it again.`,
+          variant: "destructive",
         })
       }
-    } catch (error) {
-      console.error("Upload error:", error)
-      toast({
-        title: "Upload failed",
-        description: error instanceof Error ? error.message : "Failed to upload document",
-        variant: "destructive",
-      })
-    } finally {
-      setIsUploading(false)
     }
+
+    return subscribeToDocumentStatus(handleStatusUpdate)
+  }, [hasProcessing, router, toast])
+
+  const updateUpload = (id: string, patch: Partial<FileUploadState>) => {
+    setUploads((prev) => prev.map((upload) => (upload.id === id ? { ...upload, ...patch } : upload)))
+  }
+
+  const handleFileUpload = async (pending: PendingUpload[]) => {
+    const batchId = Date.now()
+    const batch = pending.map((upload, index) => ({ ...upload, id: `${batchId}-${index}`, controller: new AbortController() }))
+    uploadControllersRef.current = new Map(batch.map(({ id, controller }) => [id, controller]))
+    setUploads(batch.map(({ id, file }) => ({ id, name: file.name, progress: 0, status: "queued" })))
+    setIsUploading(true)
+
+    // Each file settles on its own, so one failure or cancellation leaves the rest of the batch running
+    await runWithConcurrency(batch, UPLOAD_CONCURRENCY, async ({ id, file, sha256, previousVersionId, controller }) => {
+      if (controller.signal.aborted) return
+      updateUpload(id, { status: "uploading" })
+
+      try {
+        const newDoc = await uploadDocument(file, {
+          signal: controller.signal,
+          sha256,
+          previousVersionId,
+          onProgress: (progress) => updateUpload(id, { progress }),
+        })
+        uploadedIdsRef.current.add(newDoc.id)
+        setDocuments((prev) => [{ ...newDoc, sha256: newDoc.sha256 || sha256 }, ...prev])
+        updateUpload(id, { status: "done", progress: 100 })
+      } catch (error) {
+        if (error instanceof DOMException && error.name === "AbortError") {
+          updateUpload(id, { status: "cancelled" })
+        } else {
+          updateUpload(id, {
+            status: "failed",
+            error: error instanceof Error ? error.message : "Failed to upload document",
+          })
+        }
+      }
+    })
+
+    uploadControllersRef.current.clear()
+    setIsUploading(false)
+  }
+
+  // The loaded list answers most re-uploads without a request; the backend covers the rest
+  const findDuplicate = async (sha256: string) => {
+    const loaded = documents.find((doc) => doc.sha256 === sha256)
+    return loaded || findDocumentByHash(sha256)
+  }
+
+  const handleCancelUpload = (id: string) => {
+    uploadControllersRef.current.get(id)?.abort()
+    // Queued files never start a request, so mark them here rather than in the upload worker
+    setUploads((prev) =>
+      prev.map((upload) => (upload.id === id && upload.status === "queued" ? { ...upload, status: "cancelled" } : upload)),
+    )
   }
 
   const handleRowClick = (docId: string) => {
@@ -210,6 +290,11 @@ export function DocumentDashboard() {
           <FileUploader
             onFilesSelected={handleFileUpload}
             isUploading={isUploading}
+            uploads={uploads}
+            onCancelUpload={handleCancelUpload}
+            onClearUploads={() => setUploads([])}
+            findDuplicate={findDuplicate}
+            onOpenExisting={(doc) => router.push(`/documents/${doc.id}`)}
             acceptedFileTypes={[".pdf", ".docx"]}
           />
         </div>
@@ -322,11 +407,12 @@ export function DocumentDashboard() {
                           {doc.clauses && doc.clauses.length > 0 ? (
                             doc.clauses.map((clause: string) => {
                               const clauseType = convertClauseTypeToFrontendFormat(clause)
-                              const clauseInfo = CLAUSES[clauseType]
+                              const clauseInfo = clauses[clauseType]
                               return clauseInfo ? (
                                 <Badge
                                   key={clauseType}
                                   variant="outline"
+                                  title={clauseInfo.description}
                                   style={{
                                     borderColor: clauseInfo.color,
                                     color: clauseInfo.color,
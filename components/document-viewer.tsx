@@ -1,30 +1,281 @@
 "use client"
 
-import { useState, useRef, useEffect } from "react"
+import type React from "react"
+import { useState, useRef, useEffect, useMemo, useCallback, useDeferredValue } from "react"
 import { Card } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { cn } from "@/lib/utils"
-import { Info, MessageSquare } from "lucide-react"
-import { convertClauseTypeToFrontendFormat, convertClauseTypeToBackendFormat } from "@/lib/api"
+import {
+  Info,
+  MessageSquare,
+  Check,
+  X,
+  Tag,
+  RotateCcw,
+  BookOpen,
+  ScrollText,
+  ChevronUp,
+  ChevronDown,
+  Search,
+  Regex,
+  WholeWord,
+} from "lucide-react"
+import { Progress } from "@/components/ui/progress"
+import { Slider } from "@/components/ui/slider"
+import { ClauseMinimap } from "@/components/clause-minimap"
+import { ClauseTypePicker } from "@/components/clause-type-picker"
+import { NotesPanel } from "@/components/notes-panel"
+import { ResizableHandle, ResizablePanel, ResizablePanelGroup } from "@/components/ui/resizable"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Input } from "@/components/ui/input"
+import { Toggle } from "@/components/ui/toggle"
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group"
+import { usePersistedState } from "@/hooks/use-persisted-state"
+import {
+  convertClauseTypeToFrontendFormat,
+  convertClauseTypeToBackendFormat,
+  getAnnotationId,
+  getConfidenceBand,
+  getEffectiveClauseType,
+  CONFIDENCE_BANDS,
+  getEffectivePosition,
+  type ClausePosition,
+  type DocumentAnnotation,
+  type ReviewDecision,
+} from "@/lib/api"
+import type { ClauseConfig } from "@/lib/clause-taxonomy"
+import { applyHighlights, type HighlightRange } from "@/lib/highlight-engine"
+import { sanitizeHtml } from "@/lib/sanitize-html"
+import { renderTextContent } from "@/lib/text-content"
+import { buildTextIndex, searchText, MAX_SEARCH_MATCHES, type SearchMatch, type SearchOptions } from "@/lib/text-search"
 
 interface DocumentViewerProps {
   document: {
+    id?: string
     content: string
     content_type?: string
-    clauses: Array<{
-      type: string
-      selected_text: string
-      reason: string
-      confidence: number
-      position?: { start: number; end: number }
-      user?: boolean
-    }>
+    clauses: DocumentAnnotation[]
   }
-  clauses: Record<string, { name: string; color: string }>
-  onAnnotationClick: (annotation: any) => void
-  userAnnotations?: Array<any>
-  onAddAnnotation?: (text: string, startPos: number, endPos: number) => void
+  clauses: ClauseConfig
+  onAnnotationClick: (annotation: DocumentAnnotation) => void
+  userAnnotations?: DocumentAnnotation[]
+  onAddAnnotation?: (text: string, startPos: number, endPos: number, clauseType: string) => void
+  adjustingAnnotation?: DocumentAnnotation | null
+  onAdjustSpan?: (
+    annotation: DocumentAnnotation,
+    correction: { position: ClausePosition; selectedText: string } | null,
+  ) => void
+  onCancelAdjust?: () => void
+  onReview?: (annotation: DocumentAnnotation, decision: ReviewDecision) => void
+  // Details of the selected annotation, shown in the inspector in place of the clause overview
+  detailPanel?: React.ReactNode
+}
+
+// Map a caret inside the rendered content to a backend offset using the closest
+// span[data-start], ignoring the text of highlight tooltips
+function getDocumentOffset(node: Node, offset: number): number | null {
+  const element = node.nodeType === Node.TEXT_NODE ? node.parentElement : (node as Element)
+  const container = element?.closest("span[data-start]")
+  if (!container) return null
+
+  let consumed = 0
+  const walker = container.ownerDocument.createTreeWalker(container, NodeFilter.SHOW_TEXT)
+  while (walker.nextNode()) {
+    const current = walker.currentNode
+    if (current.parentElement?.closest(".clause-tooltip")) continue
+    // Text of nested offset spans counts from their own data-start
+    if (current.parentElement?.closest("span[data-start]") !== container) continue
+    if (current === node) {
+      return parseInt(container.getAttribute("data-start") || "0") + consumed + offset
+    }
+    consumed += current.textContent?.length || 0
+  }
+  return null
+}
+
+// Selection boundaries can sit between elements (e.g. across paragraphs); move them onto
+// the adjacent text node so getDocumentOffset can map them
+function toTextBoundary(node: Node, offset: number): { node: Node; offset: number } | null {
+  if (node.nodeType === Node.TEXT_NODE) return { node, offset }
+
+  const doc = node.ownerDocument
+  if (!doc) return null
+  const walker = doc.createTreeWalker(doc.body, NodeFilter.SHOW_TEXT)
+
+  if (offset < node.childNodes.length) {
+    const target = node.childNodes[offset]
+    walker.currentNode = target
+    const next = target.nodeType === Node.TEXT_NODE ? target : walker.nextNode()
+    return next ? { node: next, offset: 0 } : null
+  }
+
+  let last: Node = node
+  while (last.lastChild) last = last.lastChild
+  walker.currentNode = last
+  const previous = last.nodeType === Node.TEXT_NODE ? last : walker.previousNode()
+  return previous ? { node: previous, offset: previous.textContent?.length || 0 } : null
+}
+
+// Move an offset within a text node to the nearest word boundary in the drag direction
+function snapToWord(text: string, offset: number, edge: "start" | "end"): number {
+  let snapped = offset
+  if (edge === "start") {
+    while (snapped > 0 && /\S/.test(text[snapped - 1])) snapped--
+  } else {
+    while (snapped < text.length && /\S/.test(text[snapped])) snapped++
+  }
+  return snapped
+}
+
+// Text covered by a backend offset range, read from the offset spans of the content
+function getTextInRange(content: string, contentType: string | undefined, start: number, end: number): string {
+  if (contentType !== "html") return content.slice(start, end)
+
+  const doc = new DOMParser().parseFromString(content, "text/html")
+  let text = ""
+  let lastEnd: number | null = null
+  doc.querySelectorAll("span[data-start][data-end]").forEach((span) => {
+    const spanStart = parseInt(span.getAttribute("data-start") || "0")
+    const spanText = span.textContent || ""
+    const spanEnd = spanStart + spanText.length
+    if (spanEnd <= start || spanStart >= end) return
+
+    if (lastEnd !== null && spanStart > lastEnd) text += " "
+    text += spanText.slice(Math.max(0, start - spanStart), Math.min(spanText.length, end - spanStart))
+    lastEnd = spanEnd
+  })
+  return text
+}
+
+interface ContentPage {
+  html: string
+  // Offset range covered by the page's spans, used to skip annotations on other pages
+  start: number
+  end: number
+}
+
+type HighlightData = { annotation: DocumentAnnotation; color: string; name: string }
+
+// Highlighted pages kept per document, so paging back and forth does not redo the work
+const PAGE_CACHE_SIZE = 50
+// Pages mounted on each side of the current one in continuous mode
+const PAGE_OVERSCAN = 2
+// Placeholder height for pages that have not been measured yet (11in at 96dpi)
+const ESTIMATED_PAGE_HEIGHT = 1056
+
+type ReadingMode = "paged" | "continuous"
+type InspectorTab = "details" | "notes" | "search"
+
+// Search results listed in the inspector; the rest stay reachable with next / previous
+const MAX_LISTED_MATCHES = 200
+
+// Split the content into its .page elements once
+function splitPages(html: string): ContentPage[] {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  const pageElements = Array.from(doc.body.querySelectorAll<HTMLElement>(".page"))
+  const roots = pageElements.length > 0 ? pageElements : [doc.body]
+
+  const pages = roots.map((root) => {
+    // Pages carry their own offset range; fall back to the spans inside them when they don't
+    let start = root.hasAttribute("data-start") ? parseInt(root.getAttribute("data-start") || "0") : Infinity
+    let end = root.hasAttribute("data-end") ? parseInt(root.getAttribute("data-end") || "0") : -Infinity
+    if (start === Infinity || end === -Infinity) {
+      root.querySelectorAll("span[data-start][data-end]").forEach((span) => {
+        start = Math.min(start, parseInt(span.getAttribute("data-start") || "0"))
+        end = Math.max(end, parseInt(span.getAttribute("data-end") || "0"))
+      })
+    }
+    if (root === doc.body) return { html: doc.body.innerHTML, start, end }
+    // Only one page is mounted at a time, so it is always the one shown
+    root.style.display = "block"
+    return { html: root.outerHTML, start, end }
+  })
+
+  return pages
+}
+
+// 1-based page numbers and range ends of the pages that hold offset spans. Pages without any
+// (cover images, blank pages) have no range and would break the ordering the search relies on
+function buildPageIndex(pages: ContentPage[]): { page: number; end: number }[] {
+  return pages.flatMap((page, index) => (page.end === -Infinity ? [] : [{ page: index + 1, end: page.end }]))
+}
+
+// 1-based page holding a document offset, found by binary search over the ordered page ranges.
+// Offsets between pages resolve to the following page
+function findPageForPosition(pageIndex: { page: number; end: number }[], offset: number): number {
+  if (pageIndex.length === 0) return 1
+  let low = 0
+  let high = pageIndex.length - 1
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2)
+    if (pageIndex[middle].end <= offset) {
+      low = middle + 1
+    } else {
+      high = middle
+    }
+  }
+  return pageIndex[low].page
+}
+
+// Wrap the clauses on one page in highlight spans with hover tooltips, over any search hits
+function highlightPage(
+  page: ContentPage,
+  ranges: HighlightRange<HighlightData>[],
+  searchRanges: SearchMatch[] = [],
+  activeMatch = -1,
+): string {
+  if (ranges.length === 0 && searchRanges.length === 0) return page.html
+
+  const doc = new DOMParser().parseFromString(page.html, "text/html")
+  // Search hits go first so they end up outermost, layered under the clause highlights.
+  // They add no text, which keeps the offsets intact for the clause pass
+  applyHighlights(
+    doc.body,
+    searchRanges,
+    (mark, { range }) => {
+      mark.className = range.data.index === activeMatch ? "search-hit search-hit-active" : "search-hit"
+    },
+    "mark",
+  )
+  applyHighlights(doc.body, ranges, (element, { range, depth, isRangeStart }) => {
+    const { annotation, color, name } = range.data
+    element.className = `clause-highlight cursor-pointer transition-colors relative group ${annotation.user ? 'user-annotation' : `confidence-${getConfidenceBand(annotation.confidence)}`} ${annotation.review ? `review-${annotation.review.decision}` : ''}`
+    element.style.backgroundColor = `${color}25`
+    // Nested highlights get an extra underline per level so overlapping clauses stay distinguishable
+    element.style.borderBottom = `2px solid ${color}`
+    element.style.boxShadow = `0 ${1 + depth * 3}px 0 0 ${color}${depth > 0 ? '80' : '30'}`
+    element.setAttribute('data-clause-type', annotation.type)
+    element.setAttribute('data-annotation-id', range.id)
+    element.setAttribute('data-confidence', annotation.confidence.toString())
+
+    // One tooltip per clause, on its first segment
+    if (!isRangeStart) return
+    const tooltip = doc.createElement('div')
+    tooltip.className = 'clause-tooltip absolute invisible opacity-0 group-hover:visible group-hover:opacity-100 z-50 transition-opacity duration-200 bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs rounded shadow-lg bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 whitespace-nowrap'
+    // Built with textContent so clause names from the backend are never parsed as HTML
+    const tooltipName = doc.createElement('div')
+    tooltipName.className = 'font-semibold'
+    tooltipName.textContent = name
+    const tooltipConfidence = doc.createElement('div')
+    tooltipConfidence.className = 'text-slate-500 dark:text-slate-400'
+    tooltipConfidence.textContent = annotation.user ? 'Reviewer annotation' : `${Math.round(annotation.confidence)}% confidence`
+    tooltip.append(tooltipName, tooltipConfidence)
+
+    // Add arrow to tooltip
+    const arrow = doc.createElement('div')
+    arrow.className = 'absolute left-1/2 transform -translate-x-1/2 -bottom-1 w-2 h-2 rotate-45 bg-white dark:bg-slate-800 border-r border-b border-slate-200 dark:border-slate-700'
+    tooltip.appendChild(arrow)
+
+    element.appendChild(tooltip)
+  })
+  return doc.body.innerHTML
+}
+
+// Everything the rendered highlight depends on, so cached pages are reused only when nothing changed
+function getRangeKey({ id, start, end, data }: HighlightRange<HighlightData>): string {
+  const { annotation, color, name } = data
+  return [id, start, end, color, name, annotation.type, annotation.confidence, annotation.user, annotation.review?.decision].join("|")
 }
 
 export function DocumentViewer({
@@ -33,30 +284,64 @@ export function DocumentViewer({
   onAnnotationClick,
   userAnnotations = [],
   onAddAnnotation,
+  adjustingAnnotation,
+  onAdjustSpan,
+  onCancelAdjust,
+  onReview,
+  detailPanel,
 }: DocumentViewerProps) {
-  const [activeFilters, setActiveFilters] = useState<string[]>(Object.keys(clauses))
+  // Track hidden types so clause types loaded after mount are shown by default
+  const [hiddenFilters, setHiddenFilters] = useState<string[]>([])
+  const activeFilters = Object.keys(clauses).filter((type) => !hiddenFilters.includes(type))
+  // AI findings below this confidence (0-100) are hidden from the document and the clause list
+  const [minConfidence, setMinConfidence] = useState(0)
   const [selection, setSelection] = useState<{ text: string; start: number; end: number } | null>(null)
+  // Selection captured when the clause picker opens, since focusing the picker clears the page selection
+  const [pendingSelection, setPendingSelection] = useState<{ text: string; start: number; end: number } | null>(null)
   const contentRef = useRef<HTMLDivElement>(null)
+  const contentWrapperRef = useRef<HTMLDivElement>(null)
+  // Span being edited while adjusting an annotation's boundaries, and the handle being dragged
+  const [spanDraft, setSpanDraft] = useState<ClausePosition | null>(null)
+  const [draggingHandle, setDraggingHandle] = useState<"start" | "end" | null>(null)
+  const [handlePositions, setHandlePositions] = useState<{
+    start: { left: number; top: number; height: number }
+    end: { left: number; top: number; height: number }
+  } | null>(null)
+  const adjustingId = adjustingAnnotation ? getAnnotationId(adjustingAnnotation) : null
+
+  // Converted documents are untrusted; sanitize once before any highlighting or rendering.
+  // Plain-text and markdown content is rendered into the same offset-span HTML shape
+  const safeContent = useMemo(
+    () =>
+      document.content_type === "html"
+        ? sanitizeHtml(document.content)
+        : renderTextContent(document.content, document.content_type),
+    [document.content, document.content_type],
+  )
+  const pages = useMemo(() => splitPages(safeContent), [safeContent])
+  const pageIndex = useMemo(() => buildPageIndex(pages), [pages])
+  // Highlighted page HTML by page and annotation set; a new document starts a new cache
+  const pageCache = useMemo(() => new Map<string, string>(), [safeContent])
   const [isMounted, setIsMounted] = useState(false)
   const [currentPage, setCurrentPage] = useState(1)
-  const [totalPages, setTotalPages] = useState(1)
+  const totalPages = pages.length
+  const [readingMode, setReadingMode] = usePersistedState<ReadingMode>("document-viewer:reading-mode", "paged")
+  const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const scrollFrameRef = useRef<number | null>(null)
+  const pageHeightsRef = useRef(new Map<number, number>())
+  // Element to scroll to (and optionally pulse) once its page is rendered; the nonce repeats a jump to the same target
+  const [revealTarget, setRevealTarget] = useState<{ selector: string; pulse: boolean; nonce: number } | null>(null)
 
   const toggleFilter = (clauseType: string) => {
-    setActiveFilters((prev) =>
+    setHiddenFilters((prev) =>
       prev.includes(clauseType) ? prev.filter((type) => type !== clauseType) : [...prev, clauseType],
     )
   }
 
-  // Calculate total pages when document content changes
+  // Reset to first page when document content changes
   useEffect(() => {
-    if (document?.content_type === 'html' && isMounted) {
-      const parser = new DOMParser();
-      const doc = parser.parseFromString(document.content, 'text/html');
-      const pages = doc.querySelectorAll('.page');
-      setTotalPages(pages.length);
-      setCurrentPage(1); // Reset to first page when document changes
-    }
-  }, [document, isMounted]);
+    setCurrentPage(1)
+  }, [safeContent])
 
   // Only set up event listeners after component has mounted on client
   useEffect(() => {
@@ -76,45 +361,25 @@ export function DocumentViewer({
       const range = selection.getRangeAt(0)
       const content = contentRef.current
 
-      if (content && content.contains(range.commonAncestorContainer)) {
-        const text = selection.toString()
-        
-        // Try to get position data from closest element with data attributes
-        let start = 0
-        let end = 0
-        
-        // Find closest element with position data
-        let element: Node | null = range.commonAncestorContainer
-        while (element && element.nodeType === Node.TEXT_NODE && element.parentNode) {
-          element = element.parentNode
-        }
-        
-        if (element && element instanceof HTMLElement) {
-          const dataStart = element.getAttribute('data-start')
-          if (dataStart) {
-            start = parseInt(dataStart)
-            
-            // Calculate more accurate position using offsets
-            const startOffset = range.startOffset;
-            const endOffset = range.endOffset;
-            
-            // Get the text content up to the selection start
-            const textBeforeSelection = element.textContent?.substring(0, startOffset) || '';
-            
-            // Calculate more precise start and end positions
-            start = parseInt(dataStart) + textBeforeSelection.length;
-            end = start + text.length;
-          }
-        }
+      if (!content || !content.contains(range.commonAncestorContainer)) {
+        setSelection(null)
+        return
+      }
 
-        setSelection({
-          text,
-          start,
-          end,
-        })
-      } else {
+      const startBoundary = toTextBoundary(range.startContainer, range.startOffset)
+      const endBoundary = toTextBoundary(range.endContainer, range.endOffset)
+      const start = startBoundary && getDocumentOffset(startBoundary.node, startBoundary.offset)
+      const end = endBoundary && getDocumentOffset(endBoundary.node, endBoundary.offset)
+      // Selections that can't be mapped to backend offsets can't be annotated
+      if (start == null || end == null || end <= start) {
         setSelection(null)
+        return
       }
+
+      // Tooltips inside highlights are rendered text too; keep them out of the annotation
+      const fragment = range.cloneContents()
+      fragment.querySelectorAll(".clause-tooltip").forEach((tooltip) => tooltip.remove())
+      setSelection({ text: fragment.textContent || selection.toString(), start, end })
     }
 
     // Only add event listener on client-side
@@ -125,386 +390,939 @@ export function DocumentViewer({
     }
   }, [isMounted])
 
-  const handleAddAnnotation = () => {
-    if (selection && onAddAnnotation) {
-      onAddAnnotation(selection.text, selection.start, selection.end)
+  // Start each adjustment from the span currently shown for the annotation
+  useEffect(() => {
+    setSpanDraft(adjustingAnnotation ? getEffectivePosition(adjustingAnnotation) || null : null)
+  }, [adjustingAnnotation])
+
+  // Place the drag handles at the edges of the highlight being adjusted
+  useEffect(() => {
+    const wrapper = contentWrapperRef.current
+    if (!adjustingId || !spanDraft || !wrapper) {
+      setHandlePositions(null)
+      return
+    }
+
+    const highlights = Array.from(
+      wrapper.querySelectorAll<HTMLElement>(`[data-annotation-id="${CSS.escape(adjustingId)}"]`),
+    ).filter((element) => element.offsetParent !== null)
+    const firstRect = highlights[0]?.getClientRects()[0]
+    const lastRects = highlights[highlights.length - 1]?.getClientRects()
+    const lastRect = lastRects?.[lastRects.length - 1]
+    if (!firstRect || !lastRect) {
+      setHandlePositions(null)
+      return
+    }
+
+    const origin = wrapper.getBoundingClientRect()
+    setHandlePositions({
+      start: { left: firstRect.left - origin.left, top: firstRect.top - origin.top, height: firstRect.height },
+      end: { left: lastRect.right - origin.left, top: lastRect.top - origin.top, height: lastRect.height },
+    })
+  }, [adjustingId, spanDraft, currentPage, readingMode, document.content])
+
+  // Follow the pointer while a handle is dragged, snapping the edge to word boundaries
+  useEffect(() => {
+    if (!draggingHandle) return
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const doc = window.document as Document & {
+        caretPositionFromPoint?: (x: number, y: number) => { offsetNode: Node; offset: number } | null
+      }
+      const caret = doc.caretPositionFromPoint?.(e.clientX, e.clientY)
+      const range = caret ? null : doc.caretRangeFromPoint?.(e.clientX, e.clientY)
+      const node = caret?.offsetNode || range?.startContainer
+      const offset = caret?.offset ?? range?.startOffset
+      if (!node || offset === undefined || node.nodeType !== Node.TEXT_NODE) return
+      if (!contentRef.current?.contains(node) || node.parentElement?.closest(".clause-tooltip")) return
+
+      const snapped = snapToWord(node.textContent || "", offset, draggingHandle)
+      const position = getDocumentOffset(node, snapped)
+      if (position === null) return
+
+      setSpanDraft((prev) => {
+        if (!prev) return prev
+        return draggingHandle === "start"
+          ? { start: Math.min(position, prev.end - 1), end: prev.end }
+          : { start: prev.start, end: Math.max(position, prev.start + 1) }
+      })
+    }
+
+    const handlePointerUp = () => setDraggingHandle(null)
+
+    window.addEventListener("pointermove", handlePointerMove)
+    window.addEventListener("pointerup", handlePointerUp)
+    return () => {
+      window.removeEventListener("pointermove", handlePointerMove)
+      window.removeEventListener("pointerup", handlePointerUp)
+    }
+  }, [draggingHandle])
+
+  const saveSpanDraft = () => {
+    if (!adjustingAnnotation || !spanDraft || !onAdjustSpan) return
+    onAdjustSpan(adjustingAnnotation, {
+      position: spanDraft,
+      selectedText: getTextInRange(document.content, document.content_type, spanDraft.start, spanDraft.end),
+    })
+  }
+
+  const handlePickerOpenChange = (open: boolean) => {
+    setPendingSelection(open ? selection : null)
+  }
+
+  const handleAddAnnotation = (clauseType: string) => {
+    if (pendingSelection && onAddAnnotation) {
+      onAddAnnotation(pendingSelection.text, pendingSelection.start, pendingSelection.end, clauseType)
       setSelection(null)
+      setPendingSelection(null)
 
       // Clear the selection
       window.getSelection()?.removeAllRanges()
     }
   }
 
-  // Process the document content to add highlighting
-  const processContent = () => {
-    // If we've already got HTML content, we'll modify it to add highlights
-    if (document.content_type === 'html') {
-      // Create a DOM parser to work with the HTML content
-      const parser = new DOMParser()
-      const doc = parser.parseFromString(document.content, 'text/html')
-
-    // Get visible annotations based on filters
-    const visibleAnnotations = [
-        ...document.clauses.filter((clause) => activeFilters.includes(convertClauseTypeToFrontendFormat(clause.type))),
-        ...(userAnnotations || []).filter((anno) => activeFilters.includes(convertClauseTypeToFrontendFormat(anno.type))),
-      ].sort((a, b) => (a.position?.start || 0) - (b.position?.start || 0))
-      
-      // Enhanced logging to debug position data
-      console.log("Annotations to highlight:", visibleAnnotations.length)
-      
-      // Function to highlight text in the DOM
+  // AI findings that have an accept, reject or relabel decision
+  const reviewedCount = document.clauses.filter((clause) => clause.review).length
+
+  // Annotations of the active clause types in document order, rebuilt only when they or the filters change.
+  // AI findings below the confidence threshold are left out; reviewer annotations always show
+  const visibleAnnotations = useMemo(() => {
+    const isVisible = (clauseType: string) => clauseType in clauses && !hiddenFilters.includes(clauseType)
+    return [
+      ...document.clauses.filter(
+        (clause) =>
+          isVisible(convertClauseTypeToFrontendFormat(getEffectiveClauseType(clause))) && clause.confidence >= minConfidence,
+      ),
+      ...(userAnnotations || []).filter((anno) => isVisible(convertClauseTypeToFrontendFormat(anno.type))),
+    ].sort(
+      (a, b) => (getEffectivePosition(a)?.start ?? Infinity) - (getEffectivePosition(b)?.start ?? Infinity),
+    )
+  }, [document.clauses, userAnnotations, clauses, hiddenFilters, minConfidence])
+
+  // Findings of the active clause types hidden only by the confidence threshold
+  const belowThresholdCount = document.clauses.filter(
+    (clause) =>
+      activeFilters.includes(convertClauseTypeToFrontendFormat(getEffectiveClauseType(clause))) &&
+      clause.confidence < minConfidence,
+  ).length
+
+  const highlightRanges = useMemo(() => {
+    const ranges: HighlightRange<HighlightData>[] = []
     visibleAnnotations.forEach((annotation) => {
-        if (!annotation.position) {
-          console.log("Annotation missing position:", annotation.type, annotation.selected_text.substring(0, 50))
-          return
-        }
-        
-        const clauseInfo = clauses[convertClauseTypeToFrontendFormat(annotation.type)]
-        if (!clauseInfo) return
-        
-        const start = annotation.position.start
-        const end = annotation.position.end
-        
-        // Find all elements that might contain this text based on data-start/end attributes
-        // Use a more specific selector that only targets text spans
-        const elements = doc.querySelectorAll('span[data-start][data-end]')
-        let foundMatch = false
-
-        // Debug the elements found
-        console.log(`Looking to highlight text at positions ${start}-${end} (${annotation.selected_text.substring(0, 50)}...)`)
-        
-        for (const element of elements) {
-          const elStart = parseInt(element.getAttribute('data-start') || '0')
-          const elEnd = parseInt(element.getAttribute('data-end') || '0')
-          
-          // Improved overlap detection algorithm
-          // Check if this element contains the annotation text (fully or partially)
-          if ((start >= elStart && start < elEnd) || (end > elStart && end <= elEnd) || (start <= elStart && end >= elEnd)) {
-            // Case 1: Annotation is fully contained within this element
-            if (start >= elStart && end <= elEnd) {
-              const textContent = element.textContent || ''
-              const relativeStart = start - elStart
-              const relativeEnd = end - elStart
-              
-              if (relativeEnd <= relativeStart || relativeStart >= textContent.length) {
-                console.log("Invalid relative positions:", relativeStart, relativeEnd, textContent.length)
-                continue
-              }
-              
-              const beforeText = textContent.substring(0, relativeStart)
-              const highlightedText = textContent.substring(relativeStart, relativeEnd)
-              const afterText = textContent.substring(relativeEnd)
-              
-              if (!highlightedText) {
-                console.log("No text to highlight")
-                continue
-              }
-              
-              console.log("Found text to highlight:", highlightedText)
-              
-              // Create the highlighted span with corrected underlining
-              const highlightSpan = doc.createElement('span')
-              highlightSpan.className = `clause-highlight cursor-pointer transition-colors relative group ${annotation.user ? 'user-annotation' : ''}`
-              highlightSpan.style.backgroundColor = `${clauseInfo.color}25` // Slightly reduced opacity
-              highlightSpan.style.borderBottom = `2px solid ${clauseInfo.color}`
-              highlightSpan.style.boxShadow = `0 1px 0 0 ${clauseInfo.color}30` // Reduced shadow slightly
-              highlightSpan.setAttribute('data-clause-type', annotation.type)
-              highlightSpan.setAttribute('data-annotation-id', `${annotation.type}-${annotation.position.start}`)
-              highlightSpan.setAttribute('data-confidence', annotation.confidence.toString())
-              highlightSpan.textContent = highlightedText
-              
-              // Create tooltip with improved styling
-              const tooltip = doc.createElement('div')
-              tooltip.className = 'absolute invisible opacity-0 group-hover:visible group-hover:opacity-100 z-50 transition-opacity duration-200 bottom-full left-1/2 transform -translate-x-1/2 mb-2 px-3 py-2 text-xs rounded shadow-lg bg-white dark:bg-slate-800 text-slate-800 dark:text-slate-200 border border-slate-200 dark:border-slate-700 whitespace-nowrap'
-              tooltip.innerHTML = `<div class="font-semibold">${clauseInfo.name}</div><div class="text-slate-500 dark:text-slate-400">${Math.round(annotation.confidence)}% confidence</div>`
-              
-              // Add arrow to tooltip
-              const arrow = doc.createElement('div')
-              arrow.className = 'absolute left-1/2 transform -translate-x-1/2 -bottom-1 w-2 h-2 rotate-45 bg-white dark:bg-slate-800 border-r border-b border-slate-200 dark:border-slate-700'
-              tooltip.appendChild(arrow)
-              
-              highlightSpan.appendChild(tooltip)
-              
-              // Preserve the original element's attributes when creating the new element
-              const newElement = element.cloneNode(false) as HTMLElement;
-              
-              if (beforeText) {
-                const beforeTextNode = doc.createTextNode(beforeText)
-                newElement.appendChild(beforeTextNode)
-              }
-              
-              newElement.appendChild(highlightSpan)
-              
-              if (afterText) {
-                const afterTextNode = doc.createTextNode(afterText)
-                newElement.appendChild(afterTextNode)
-              }
-              
-              // Replace the original element with our modified version
-              element.parentNode?.replaceChild(newElement, element)
-              foundMatch = true
-            }
-            // Case 2: Element contains part of the annotation (overlapping)
-            else if (elStart <= start && elEnd <= end && elEnd > start) {
-              // Handle the beginning part of the annotation
-              const textContent = element.textContent || ''
-              const relativeStart = Math.max(0, start - elStart)
-              
-              const beforeText = textContent.substring(0, relativeStart)
-              const highlightedText = textContent.substring(relativeStart)
-              
-              if (highlightedText) {
-                // Create highlighted span for partial text (beginning)
-                const highlightSpan = doc.createElement('span')
-                highlightSpan.className = `clause-highlight cursor-pointer transition-colors relative group ${annotation.user ? 'user-annotation' : ''}`
-                highlightSpan.style.backgroundColor = `${clauseInfo.color}25`
-                highlightSpan.style.borderBottom = `2px solid ${clauseInfo.color}`
-                highlightSpan.style.boxShadow = `0 1px 0 0 ${clauseInfo.color}30`
-                highlightSpan.setAttribute('data-clause-type', annotation.type)
-                highlightSpan.setAttribute('data-annotation-id', `${annotation.type}-${annotation.position.start}`)
-                highlightSpan.textContent = highlightedText
-                
-                // Rebuild the element
-                const newElement = element.cloneNode(false) as HTMLElement;
-                
-                if (beforeText) {
-                  newElement.appendChild(doc.createTextNode(beforeText))
-                }
-                
-                newElement.appendChild(highlightSpan)
-                element.parentNode?.replaceChild(newElement, element)
-                foundMatch = true
-              }
-            }
-            // Case 3: Element contains the end part of the annotation
-            else if (elStart >= start && elStart < end && elEnd >= end) {
-              // Handle the ending part of the annotation
-              const textContent = element.textContent || ''
-              const relativeEnd = end - elStart
-              
-              const highlightedText = textContent.substring(0, relativeEnd)
-              const afterText = textContent.substring(relativeEnd)
-              
-              if (highlightedText) {
-                // Create highlighted span for partial text (end)
-                const highlightSpan = doc.createElement('span')
-                highlightSpan.className = `clause-highlight cursor-pointer transition-colors relative group ${annotation.user ? 'user-annotation' : ''}`
-                highlightSpan.style.backgroundColor = `${clauseInfo.color}25`
-                highlightSpan.style.borderBottom = `2px solid ${clauseInfo.color}`
-                highlightSpan.style.boxShadow = `0 1px 0 0 ${clauseInfo.color}30`
-                highlightSpan.setAttribute('data-clause-type', annotation.type)
-                highlightSpan.setAttribute('data-annotation-id', `${annotation.type}-${annotation.position.start}`)
-                highlightSpan.textContent = highlightedText
-                
-                // Rebuild the element
-                const newElement = element.cloneNode(false) as HTMLElement;
-                newElement.appendChild(highlightSpan)
-                
-                if (afterText) {
-                  newElement.appendChild(doc.createTextNode(afterText))
-                }
-                
-                element.parentNode?.replaceChild(newElement, element)
-                foundMatch = true
-              }
-            }
-          }
-        }
-        
-        if (!foundMatch) {
-          console.log(`Could not find element containing text at positions ${start}-${end}`)
-        }
+      // The annotation being adjusted is drawn at its draft span
+      const position = adjustingId === getAnnotationId(annotation) && spanDraft ? spanDraft : getEffectivePosition(annotation)
+      const clauseInfo = clauses[convertClauseTypeToFrontendFormat(getEffectiveClauseType(annotation))]
+      if (!position || !clauseInfo) return
+
+      ranges.push({
+        id: getAnnotationId(annotation),
+        start: position.start,
+        end: position.end,
+        data: { annotation, color: clauseInfo.color, name: clauseInfo.name },
       })
-      
-      // Modify the document to display only the current page
-      const pages = doc.querySelectorAll('.page');
-      pages.forEach((page, index) => {
-        if (index + 1 !== currentPage) {
-          (page as HTMLElement).style.display = 'none';
-        } else {
-          (page as HTMLElement).style.display = 'block';
+    })
+    return ranges
+  }, [visibleAnnotations, clauses, adjustingId, spanDraft])
+
+  // Right-hand inspector tab; clause details show the clause overview when nothing is selected
+  const [inspectorTab, setInspectorTab] = useState<InspectorTab>("details")
+
+  // Full-text search over every page, not just the mounted ones
+  const [searchQuery, setSearchQuery] = useState("")
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({ regex: false, wholeWord: false })
+  const [activeMatchIndex, setActiveMatchIndex] = useState(0)
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const deferredSearchQuery = useDeferredValue(searchQuery)
+  // The index is only built once search is used, and kept while a query is active
+  const searchActive = inspectorTab === "search" || searchQuery !== ""
+  const textIndex = useMemo(() => (searchActive ? buildTextIndex(safeContent) : null), [safeContent, searchActive])
+
+  const { searchMatches, searchError } = useMemo(() => {
+    if (!textIndex) return { searchMatches: [], searchError: false }
+    try {
+      return { searchMatches: searchText(textIndex, deferredSearchQuery, searchOptions), searchError: false }
+    } catch {
+      return { searchMatches: [], searchError: true }
+    }
+  }, [textIndex, deferredSearchQuery, searchOptions])
+
+  // Only mounted pages are parsed and highlighted. DOMParser is not available in Web
+  // Workers, so instead of moving the work off the main thread it is cached per page
+  // and annotation set, and timed under "document-viewer:highlight" in the Performance panel
+  const renderPage = useCallback(
+    (pageIndex: number) => {
+      const page = pages[pageIndex]
+      const pageRanges = highlightRanges.filter((range) => range.start < page.end && range.end > page.start)
+      const pageMatches = searchMatches.filter((match) => match.start < page.end && match.end > page.start)
+      const cacheKey = [
+        pageIndex,
+        pageRanges.map(getRangeKey).join(","),
+        pageMatches.map((match) => `${match.start}-${match.end}${match.data.index === activeMatchIndex ? "*" : ""}`).join(","),
+      ].join(":")
+
+      let html = pageCache.get(cacheKey)
+      if (html === undefined) {
+        const startMark = performance.mark("document-viewer:highlight-start")
+        html = highlightPage(page, pageRanges, pageMatches, activeMatchIndex)
+        performance.measure("document-viewer:highlight", startMark.name)
+
+        if (pageCache.size >= PAGE_CACHE_SIZE) {
+          pageCache.delete(pageCache.keys().next().value as string)
         }
-      });
-      
-      // Convert the modified DOM back to HTML string
-      return doc.body.innerHTML
+        pageCache.set(cacheKey, html)
+      }
+      return html
+    },
+    [pages, pageCache, highlightRanges, searchMatches, activeMatchIndex],
+  )
+
+  const renderedContent = useMemo(
+    () => (readingMode === "paged" ? renderPage(Math.min(currentPage, totalPages) - 1) : ""),
+    [readingMode, renderPage, currentPage, totalPages],
+  )
+
+  // In continuous mode the current page follows the page crossing the upper third of the viewport
+  const handleContinuousScroll = () => {
+    const container = scrollContainerRef.current
+    if (!container || scrollFrameRef.current !== null) return
+
+    scrollFrameRef.current = requestAnimationFrame(() => {
+      scrollFrameRef.current = null
+      const anchor = container.getBoundingClientRect().top + container.clientHeight / 3
+      const pageElements = container.querySelectorAll<HTMLElement>("[data-page-index]")
+      let visiblePage = 1
+      pageElements.forEach((element, index) => {
+        if (element.getBoundingClientRect().top <= anchor) visiblePage = index + 1
+      })
+      setCurrentPage(visiblePage)
+    })
+  }
+
+  // Remember the height of every mounted page so it keeps its place once unmounted
+  useEffect(() => {
+    if (readingMode !== "continuous") return
+    scrollContainerRef.current?.querySelectorAll<HTMLElement>("[data-page-index]").forEach((element) => {
+      if (element.childElementCount > 0) {
+        pageHeightsRef.current.set(parseInt(element.getAttribute("data-page-index") || "0"), element.offsetHeight)
+      }
+    })
+  })
+
+  // Measured heights belong to the previous document
+  useEffect(() => {
+    pageHeightsRef.current.clear()
+  }, [safeContent])
+
+  const goToPage = (page: number) => {
+    setCurrentPage(page)
+    if (readingMode === "continuous") {
+      scrollContainerRef.current
+        ?.querySelector(`[data-page-index="${page - 1}"]`)
+        ?.scrollIntoView({ block: "start" })
     }
-    
-    // Fallback to the original content if not HTML
-    return document.content
   }
-  
+
+  // Keep the reader on the same page when switching modes
+  useEffect(() => {
+    if (readingMode === "continuous") {
+      scrollContainerRef.current
+        ?.querySelector(`[data-page-index="${currentPage - 1}"]`)
+        ?.scrollIntoView({ block: "start" })
+    }
+    // Only on mode changes: scrolling itself updates currentPage
+  }, [readingMode])
+
+  const handleContentClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    // Overlapping highlights are nested, so the innermost (shortest) clause wins
+    const target = (e.target as HTMLElement).closest<HTMLElement>(".clause-highlight")
+    if (target) {
+      const clauseType = target.getAttribute("data-clause-type")
+      const annotation = [...document.clauses, ...(userAnnotations || [])].find(
+        (clause) => clause.type === clauseType && getAnnotationId(clause) === target.getAttribute("data-annotation-id"),
+      )
+      if (annotation) {
+        openAnnotation(annotation)
+      }
+    }
+  }
+
+  // Show an annotation's details in the inspector and make it the active finding
+  const openAnnotation = (annotation: DocumentAnnotation) => {
+    setActiveFindingId(getAnnotationId(annotation))
+    setInspectorTab("details")
+    onAnnotationClick(annotation)
+  }
+
+  // Open an annotation picked outside the document (clause list, notes), bringing it into view first
+  const selectAnnotation = (annotation: DocumentAnnotation) => {
+    revealAnnotation(annotation)
+    openAnnotation(annotation)
+  }
+
+  // Jump to the page holding an annotation, then scroll its highlight into view and pulse it
+  const revealAnnotation = (annotation: DocumentAnnotation) => {
+    const position = getEffectivePosition(annotation)
+    if (position) {
+      const page = findPageForPosition(pageIndex, position.start)
+      if (page !== currentPage) goToPage(page)
+    }
+    setRevealTarget({
+      selector: `.clause-highlight[data-annotation-id="${CSS.escape(getAnnotationId(annotation))}"]`,
+      pulse: true,
+      nonce: Date.now(),
+    })
+  }
+
+  useEffect(() => {
+    if (!revealTarget) return
+
+    const highlight = contentRef.current?.querySelector<HTMLElement>(revealTarget.selector)
+    if (!highlight) return
+
+    highlight.scrollIntoView({ behavior: "smooth", block: "center" })
+    if (!revealTarget.pulse) return
+    // Restart the animation when the same highlight is revealed twice in a row
+    highlight.classList.remove("clause-pulse")
+    void highlight.offsetWidth
+    highlight.classList.add("clause-pulse")
+    const timeout = window.setTimeout(() => highlight.classList.remove("clause-pulse"), 1600)
+    return () => window.clearTimeout(timeout)
+  }, [revealTarget])
+
+  const goToMatch = (index: number) => {
+    const match = searchMatches[index]
+    if (!match) return
+    setActiveMatchIndex(index)
+    const page = findPageForPosition(pageIndex, match.start)
+    if (page !== currentPage) goToPage(page)
+    setRevealTarget({ selector: ".search-hit-active", pulse: false, nonce: Date.now() })
+  }
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (searchMatches.length === 0) return
+    goToMatch((activeMatchIndex + direction + searchMatches.length) % searchMatches.length)
+  }
+
+  // A new result set starts at its first match
+  useEffect(() => {
+    if (searchMatches.length > 0) {
+      goToMatch(0)
+    } else {
+      setActiveMatchIndex(0)
+    }
+    // Only when the results change; goToMatch reads the latest page state
+  }, [searchMatches])
+
+  const openSearch = () => {
+    setInspectorTab("search")
+    // The input mounts with the tab, so focus it on the next frame
+    requestAnimationFrame(() => {
+      searchInputRef.current?.focus()
+      searchInputRef.current?.select()
+    })
+  }
+
+  const clearSearch = () => setSearchQuery("")
+
+  // Finding the reviewer is triaging with the next / previous controls and J / K
+  const [activeFindingId, setActiveFindingId] = useState<string | null>(null)
+  const activeFindingIndex = visibleAnnotations.findIndex((annotation) => getAnnotationId(annotation) === activeFindingId)
+  const activeFinding = activeFindingIndex >= 0 ? visibleAnnotations[activeFindingIndex] : null
+
+  const goToFinding = (direction: 1 | -1) => {
+    if (visibleAnnotations.length === 0) return
+    const nextIndex =
+      activeFindingIndex < 0
+        ? direction === 1 ? 0 : visibleAnnotations.length - 1
+        : Math.min(Math.max(activeFindingIndex + direction, 0), visibleAnnotations.length - 1)
+    const finding = visibleAnnotations[nextIndex]
+    setActiveFindingId(getAnnotationId(finding))
+    revealAnnotation(finding)
+  }
+
+  // Keyboard triage: J / K move between findings, Enter opens one, A / R accept or reject it
+  const handleShortcut = (e: KeyboardEvent) => {
+    // Ctrl/Cmd+F opens the viewer's search, which reaches pages the browser's find cannot
+    if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === "f") {
+      e.preventDefault()
+      openSearch()
+      return
+    }
+    if (e.metaKey || e.ctrlKey || e.altKey || e.defaultPrevented) return
+    const target = e.target as HTMLElement | null
+    if (target?.closest("input, textarea, select, [contenteditable], [role='dialog'], [role='menu'], [cmdk-root]")) return
+    if (adjustingAnnotation) return
+
+    const key = e.key.toLowerCase()
+    if (key === "j" || key === "k") {
+      e.preventDefault()
+      goToFinding(key === "j" ? 1 : -1)
+    } else if (key === "enter" && activeFinding && !target?.closest("button, a")) {
+      e.preventDefault()
+      openAnnotation(activeFinding)
+    } else if ((key === "a" || key === "r") && activeFinding && !activeFinding.user && onReview) {
+      e.preventDefault()
+      onReview(activeFinding, key === "a" ? "accepted" : "rejected")
+    }
+  }
+  const shortcutHandlerRef = useRef(handleShortcut)
+  shortcutHandlerRef.current = handleShortcut
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => shortcutHandlerRef.current(e)
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  // Heat map of every visible clause across all pages, in clause colors
+  const documentRange = useMemo(() => {
+    const bounded = pages.filter((page) => Number.isFinite(page.start) && Number.isFinite(page.end))
+    return bounded.length > 0
+      ? { start: bounded[0].start, end: bounded[bounded.length - 1].end }
+      : { start: 0, end: document.content.length }
+  }, [pages, document.content])
+  const minimapMarks = highlightRanges.map(({ id, start, end, data }) => ({
+    id,
+    start,
+    end,
+    color: data.color,
+    label: `${data.name}: ${(data.annotation.correction?.selected_text ?? data.annotation.selected_text).slice(0, 80)}`,
+  }))
+  const shownPage = pages[Math.min(currentPage, totalPages) - 1]
+  const currentPageRange =
+    totalPages > 1 && Number.isFinite(shownPage.start) ? { start: shownPage.start, end: shownPage.end } : undefined
+
+  const handleMinimapSelect = (id: string) => {
+    const annotation = visibleAnnotations.find((candidate) => getAnnotationId(candidate) === id)
+    if (!annotation) return
+    setActiveFindingId(id)
+    revealAnnotation(annotation)
+  }
+
   // Navigate to previous page
   const goToPreviousPage = () => {
     if (currentPage > 1) {
-      setCurrentPage(currentPage - 1);
+      goToPage(currentPage - 1);
     }
   };
   
   // Navigate to next page
   const goToNextPage = () => {
     if (currentPage < totalPages) {
-      setCurrentPage(currentPage + 1);
+      goToPage(currentPage + 1);
     }
   };
 
   return (
-    <div className="grid grid-cols-1 gap-6 lg:grid-cols-4">
-      <div className="lg:col-span-3">
-        <Card className="overflow-hidden border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/90 shadow-sm">
+    <ResizablePanelGroup direction="horizontal" autoSaveId="document-viewer-layout" className="h-[calc(100vh-10rem)] min-h-[600px]">
+      <ResizablePanel defaultSize={70} minSize={40}>
+        <Card className="flex h-full flex-col overflow-hidden border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/90 shadow-sm">
           <div className="flex items-center justify-between border-b border-slate-200 dark:border-slate-700 p-4">
-            <div className="flex items-center">
+            <div className="flex items-center gap-3">
               <h3 className="font-medium text-slate-800 dark:text-white">Document Content</h3>
-            </div>
-            {totalPages > 1 && (
-              <div className="flex items-center space-x-2">
-                <Button 
-                  variant="outline" 
-                  size="sm" 
-                  onClick={goToPreviousPage} 
-                  disabled={currentPage === 1}
-                  className="bg-white dark:bg-transparent"
-                >
-                  Previous
-                </Button>
-                <span className="text-sm text-slate-600 dark:text-slate-300">
-                  Page {currentPage} of {totalPages}
-                </span>
-                <Button
-                  variant="outline" 
-                  size="sm"
-                  onClick={goToNextPage} 
-                  disabled={currentPage === totalPages}
-                  className="bg-white dark:bg-transparent"
-                >
-                  Next
-                </Button>
-              </div>
-            )}
-          </div>
-            <div
-            className="min-h-[800px] text-slate-800 dark:text-slate-200 document-container"
-              ref={contentRef}
-            style={{ position: "relative" }}
-              onClick={(e) => {
-                const target = e.target as HTMLElement
-                if (target.classList.contains("clause-highlight")) {
-                  const clauseType = target.getAttribute("data-clause-type")
-                const annotation = [
-                  ...document.clauses, 
-                  ...(userAnnotations || [])
-                ].find(
-                    (clause) =>
-                      clause.type === clauseType &&
-                    `${clauseType}-${clause.position?.start}` === target.getAttribute("data-annotation-id"),
-                  )
-                  if (annotation) {
-                    onAnnotationClick(annotation)
-                  }
-                }
-              }}
-            dangerouslySetInnerHTML={{ __html: processContent() }}
-            />
-        </Card>
-      </div>
-      <div className="lg:col-span-1">
-        <div className="space-y-4">
-          <Card className="border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/90 p-4 shadow-sm">
-            <h3 className="text-xl font-medium text-slate-800 dark:text-white mb-6">
-              Clause Analysis
-            </h3>
-
-          <div className="mb-6">
-              <div className="flex items-center gap-1 mb-2">
-                <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Filter Clauses</span>
-                <Info className="h-4 w-4 text-slate-400" />
-            </div>
-              <div className="flex flex-wrap gap-2">
-                {Object.entries(clauses).map(([key, value]) => {
-                  const isActive = activeFilters.includes(key);
-                  return (
+              {adjustingAnnotation && spanDraft && (
+                <div className="flex items-center gap-2">
+                  <span className="hidden text-xs text-slate-500 dark:text-slate-400 md:inline">
+                    Drag the handles to adjust the span
+                  </span>
+                  <Button size="sm" onClick={saveSpanDraft} className="bg-blue-700 hover:bg-blue-800 dark:bg-blue-600 dark:hover:bg-blue-700">
+                    Save span
+                  </Button>
+                  {adjustingAnnotation.correction && (
                     <Button
-                      key={key}
-                  variant="outline"
+                      variant="outline"
                       size="sm"
-                  className={cn(
-                        "text-xs border rounded-full px-3 py-1",
-                        isActive
-                          ? "bg-white text-slate-900 dark:bg-slate-800/80 dark:text-slate-100 dark:border-slate-700"
-                          : "bg-slate-100 text-slate-500 dark:bg-slate-800/40 dark:text-slate-400 dark:border-slate-700"
-                  )}
-                  style={{
-                        borderColor: isActive ? value.color : undefined,
-                        color: isActive ? value.color : undefined,
-                      }}
-                      onClick={() => toggleFilter(key)}
+                      onClick={() => onAdjustSpan?.(adjustingAnnotation, null)}
+                      className="gap-1 bg-white dark:bg-transparent"
                     >
-                      {value.name}
+                      <RotateCcw className="h-3.5 w-3.5" />
+                      AI span
                     </Button>
-                  );
-                })}
+                  )}
+                  <Button variant="ghost" size="sm" onClick={onCancelAdjust}>
+                    Cancel
+                  </Button>
+                </div>
+              )}
+              {!adjustingAnnotation && onAddAnnotation && (selection || pendingSelection) && (
+                <ClauseTypePicker
+                  clauses={clauses}
+                  open={pendingSelection !== null}
+                  onOpenChange={handlePickerOpenChange}
+                  onSelect={(clauseType) => handleAddAnnotation(convertClauseTypeToBackendFormat(clauseType))}
+                >
+                  <Button variant="outline" size="sm" className="gap-1 bg-white dark:bg-transparent">
+                    <MessageSquare className="h-4 w-4" />
+                    Annotate selection
+                  </Button>
+                </ClauseTypePicker>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                onClick={openSearch}
+                aria-label="Search document"
+                title="Search document (Ctrl+F)"
+              >
+                <Search className="h-4 w-4" />
+              </Button>
+              {visibleAnnotations.length > 0 && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => goToFinding(-1)}
+                    disabled={activeFindingIndex === 0}
+                    aria-label="Previous finding"
+                    title="Previous finding (K)"
+                  >
+                    <ChevronUp className="h-4 w-4" />
+                  </Button>
+                  <span className="min-w-[7rem] text-center text-sm text-slate-600 dark:text-slate-300">
+                    {activeFindingIndex >= 0
+                      ? `Finding ${activeFindingIndex + 1} of ${visibleAnnotations.length}`
+                      : `${visibleAnnotations.length} findings`}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => goToFinding(1)}
+                    disabled={activeFindingIndex === visibleAnnotations.length - 1}
+                    aria-label="Next finding"
+                    title="Next finding (J)"
+                  >
+                    <ChevronDown className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {totalPages > 1 && (
+                <div className="flex items-center space-x-2">
+                  <ToggleGroup
+                    type="single"
+                    size="sm"
+                    value={readingMode}
+                    onValueChange={(value) => value && setReadingMode(value as ReadingMode)}
+                    aria-label="Reading mode"
+                  >
+                    <ToggleGroupItem value="paged" aria-label="Paged" title="Paged">
+                      <BookOpen className="h-4 w-4" />
+                    </ToggleGroupItem>
+                    <ToggleGroupItem value="continuous" aria-label="Continuous scroll" title="Continuous scroll">
+                      <ScrollText className="h-4 w-4" />
+                    </ToggleGroupItem>
+                  </ToggleGroup>
+                  <Button 
+                    variant="outline" 
+                    size="sm" 
+                    onClick={goToPreviousPage} 
+                    disabled={currentPage === 1}
+                    className="bg-white dark:bg-transparent"
+                  >
+                    Previous
+                  </Button>
+                  <span className="text-sm text-slate-600 dark:text-slate-300">
+                    Page {currentPage} of {totalPages}
+                  </span>
+                  <Button
+                    variant="outline" 
+                    size="sm"
+                    onClick={goToNextPage} 
+                    disabled={currentPage === totalPages}
+                    className="bg-white dark:bg-transparent"
+                  >
+                    Next
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+          <div className="flex min-h-0 flex-1">
+            <div
+              ref={scrollContainerRef}
+              onScroll={readingMode === "continuous" ? handleContinuousScroll : undefined}
+              className="min-w-0 flex-1 overflow-y-auto"
+            >
+              <div ref={contentWrapperRef} className={cn("relative", draggingHandle && "select-none")}>
+                {readingMode === "paged" ? (
+                  <div
+                    key="paged"
+                    className="min-h-[800px] text-slate-800 dark:text-slate-200 document-container"
+                    ref={contentRef}
+                    style={{ position: "relative" }}
+                    onClick={handleContentClick}
+                    dangerouslySetInnerHTML={{ __html: renderedContent }}
+                  />
+                ) : (
+                  <div
+                    key="continuous"
+                    className="min-h-[800px] text-slate-800 dark:text-slate-200 document-container"
+                    ref={contentRef}
+                    style={{ position: "relative" }}
+                    onClick={handleContentClick}
+                  >
+                    {pages.map((_, index) =>
+                      // Only pages near the current one are in the DOM; the rest keep their measured height
+                      Math.abs(index - (currentPage - 1)) <= PAGE_OVERSCAN ? (
+                        <div
+                          key={`page-${index}`}
+                          data-page-index={index}
+                          className="flow-root"
+                          dangerouslySetInnerHTML={{ __html: renderPage(index) }}
+                        />
+                      ) : (
+                        <div
+                          key={`placeholder-${index}`}
+                          data-page-index={index}
+                          className="flow-root"
+                          style={{ height: pageHeightsRef.current.get(index) ?? ESTIMATED_PAGE_HEIGHT }}
+                        />
+                      ),
+                    )}
+                  </div>
+                )}
+                {handlePositions &&
+                  (["start", "end"] as const).map((edge) => (
+                    <div
+                      key={edge}
+                      role="slider"
+                      aria-label={`Adjust span ${edge}`}
+                      aria-valuenow={spanDraft?.[edge]}
+                      className="span-handle absolute z-40 w-1.5 -translate-x-1/2 cursor-ew-resize rounded-full bg-blue-600 dark:bg-blue-400"
+                      style={{
+                        left: handlePositions[edge].left,
+                        top: handlePositions[edge].top - 4,
+                        height: handlePositions[edge].height + 8,
+                        // Let caret hit-testing reach the text underneath while dragging
+                        pointerEvents: draggingHandle ? "none" : "auto",
+                      }}
+                      onPointerDown={(e) => {
+                        e.preventDefault()
+                        setDraggingHandle(edge)
+                      }}
+                    />
+                  ))}
+              </div>
+            </div>
+            {minimapMarks.length > 0 && (
+              <div className="w-5 shrink-0 border-l border-slate-200 dark:border-slate-700 py-3">
+                <ClauseMinimap
+                  marks={minimapMarks}
+                  documentStart={documentRange.start}
+                  documentEnd={documentRange.end}
+                  viewport={currentPageRange}
+                  onSelect={handleMinimapSelect}
+                  className="mx-auto h-full"
+                />
               </div>
+            )}
           </div>
+        </Card>
+      </ResizablePanel>
+      <ResizableHandle withHandle className="mx-2 bg-transparent" />
+      <ResizablePanel defaultSize={30} minSize={20}>
+        <Card className="flex h-full flex-col overflow-hidden border-slate-200 dark:border-slate-700 bg-white dark:bg-slate-800/90 shadow-sm">
+          <Tabs
+            value={inspectorTab}
+            onValueChange={(value) => setInspectorTab(value as InspectorTab)}
+            className="flex min-h-0 flex-1 flex-col"
+          >
+            <TabsList className="m-4 mb-0 grid grid-cols-3">
+              <TabsTrigger value="details">Clause details</TabsTrigger>
+              <TabsTrigger value="notes">All notes</TabsTrigger>
+              <TabsTrigger value="search">Search</TabsTrigger>
+            </TabsList>
+            <TabsContent value="details" className="min-h-0 flex-1 overflow-y-auto p-4">
+              {detailPanel || (
+                <>
+                  <h3 className="text-xl font-medium text-slate-800 dark:text-white mb-6">
+                    Clause Analysis
+                  </h3>
 
-          <div>
-              <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-4">Detected Clauses</h4>
-              <div className="space-y-4">
-                {document.clauses.length === 0 ? (
-                  <p className="text-center text-sm text-slate-500 dark:text-slate-400">No clauses detected</p>
-                ) : (
-                  Object.entries(clauses)
-                    .filter(([key, _]) => activeFilters.includes(key))
-                    .map(([key, clauseInfo]) => {
-                      const clausesByType = document.clauses.filter(
-                        (clause) => convertClauseTypeToFrontendFormat(clause.type) === key
-                      );
-                      
-                      return clausesByType.length > 0 ? (
-                        clausesByType.map((clause, index) => (
-                          <div 
-                            key={`${key}-${index}`} 
-                            className="p-4 rounded-md bg-slate-50 dark:bg-slate-800/30 cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700/50"
-                        onClick={() => onAnnotationClick(clause)}
-                      >
-                            <div className="flex items-center gap-2 mb-2">
-                              <div 
-                                className="w-3 h-3 rounded-full" 
-                                style={{ backgroundColor: clauseInfo.color }} 
-                              />
-                              <span className="font-medium text-slate-800 dark:text-slate-50">
-                                {clauseInfo.name}
-                              </span>
+                  {document.clauses.length > 0 && (
+                    <div className="mb-6">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Review Progress</span>
+                        <span className="text-xs text-slate-500 dark:text-slate-400">
+                          {reviewedCount === document.clauses.length
+                            ? "Fully vetted"
+                            : `${reviewedCount} of ${document.clauses.length} reviewed`}
+                        </span>
+                      </div>
+                      <Progress value={(reviewedCount / document.clauses.length) * 100} className="h-2" />
+                    </div>
+                  )}
+
+                <div className="mb-6">
+                    <div className="flex items-center gap-1 mb-2">
+                      <span className="text-sm font-medium text-slate-700 dark:text-slate-300">Filter Clauses</span>
+                      <Info className="h-4 w-4 text-slate-400" />
+                  </div>
+                    <div className="flex flex-wrap gap-2">
+                      {Object.entries(clauses).map(([key, value]) => {
+                        const isActive = activeFilters.includes(key);
+                        return (
+                          <Button
+                            key={key}
+                        variant="outline"
+                            size="sm"
+                            title={value.description}
+                        className={cn(
+                              "text-xs border rounded-full px-3 py-1",
+                              isActive
+                                ? "bg-white text-slate-900 dark:bg-slate-800/80 dark:text-slate-100 dark:border-slate-700"
+                                : "bg-slate-100 text-slate-500 dark:bg-slate-800/40 dark:text-slate-400 dark:border-slate-700"
+                        )}
+                        style={{
+                              borderColor: isActive ? value.color : undefined,
+                              color: isActive ? value.color : undefined,
+                            }}
+                            onClick={() => toggleFilter(key)}
+                          >
+                            {value.name}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                    {document.clauses.length > 0 && (
+                      <div className="mt-4">
+                        <div className="flex items-center justify-between mb-2">
+                          <label htmlFor="confidence-threshold" className="text-sm font-medium text-slate-700 dark:text-slate-300">
+                            Minimum confidence
+                          </label>
+                          <span className="text-xs font-medium text-slate-600 dark:text-slate-300">{minConfidence}%</span>
                         </div>
-                            <p className="text-sm text-slate-600 dark:text-slate-200 line-clamp-2 mb-2">
-                              {clause.selected_text.length > 100 
-                                ? `${clause.selected_text.substring(0, 100)}...` 
-                                : clause.selected_text}
-                            </p>
-                            <div className="flex items-center">
-                              <div className="w-full bg-slate-200 dark:bg-slate-800 h-1.5 rounded-full">
+                        <Slider
+                          id="confidence-threshold"
+                          min={0}
+                          max={100}
+                          step={5}
+                          value={[minConfidence]}
+                          onValueChange={([value]) => setMinConfidence(value)}
+                          aria-label="Minimum confidence"
+                        />
+                        {belowThresholdCount > 0 && (
+                          <p className="mt-2 text-xs text-amber-700 dark:text-amber-400">
+                            {belowThresholdCount} {belowThresholdCount === 1 ? "finding" : "findings"} below {minConfidence}% hidden
+                          </p>
+                        )}
+                        <div className="mt-3 flex flex-wrap gap-x-3 gap-y-1">
+                          {CONFIDENCE_BANDS.map(({ band, label }) => (
+                            <span key={band} className="flex items-center gap-1.5 text-xs text-slate-500 dark:text-slate-400">
+                              <span className={cn("confidence-swatch inline-block w-5", `confidence-${band}`)} />
+                              {label}
+                            </span>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                </div>
+
+                <div>
+                    <h4 className="text-sm font-medium text-slate-700 dark:text-slate-300 mb-4">Detected Clauses</h4>
+                    <div className="space-y-4">
+                      {document.clauses.length === 0 && userAnnotations.length === 0 ? (
+                        <p className="text-center text-sm text-slate-500 dark:text-slate-400">No clauses detected</p>
+                      ) : (
+                        Object.entries(clauses)
+                          .filter(([key, _]) => activeFilters.includes(key))
+                          .map(([key, clauseInfo]) => {
+                            const clausesByType = [...document.clauses, ...userAnnotations].filter(
+                              (clause) =>
+                                convertClauseTypeToFrontendFormat(getEffectiveClauseType(clause)) === key &&
+                                (clause.user || clause.confidence >= minConfidence)
+                            );
+                      
+                            return clausesByType.length > 0 ? (
+                              clausesByType.map((clause, index) => (
                                 <div 
-                                  className="h-full rounded-full" 
-                              style={{
-                                    width: `${clause.confidence}%`,
-                                    backgroundColor: clauseInfo.color 
-                              }}
-                            />
+                                  key={`${key}-${index}`} 
+                                  className={cn(
+                                    "p-4 rounded-md bg-slate-50 dark:bg-slate-800/30 cursor-pointer hover:bg-slate-100 dark:hover:bg-slate-700/50",
+                                    activeFindingId === getAnnotationId(clause) && "ring-2 ring-blue-500 dark:ring-blue-400",
+                                  )}
+                              onClick={() => selectAnnotation(clause)}
+                            >
+                                  <div className="flex items-center gap-2 mb-2">
+                                    <div 
+                                      className="w-3 h-3 rounded-full" 
+                                      style={{ backgroundColor: clauseInfo.color }} 
+                                    />
+                                    <span className="font-medium text-slate-800 dark:text-slate-50">
+                                      {clauseInfo.name}
+                                    </span>
+                                    {clause.user && (
+                                      <Badge variant="outline" className="ml-auto text-[10px] text-slate-500 dark:text-slate-400">
+                                        Reviewer
+                                      </Badge>
+                                    )}
+                                    {clause.review?.decision === "accepted" && (
+                                      <Check className="ml-auto h-4 w-4 text-green-600 dark:text-green-400" aria-label="Accepted" />
+                                    )}
+                                    {clause.review?.decision === "rejected" && (
+                                      <X className="ml-auto h-4 w-4 text-red-600 dark:text-red-400" aria-label="Rejected" />
+                                    )}
+                                    {clause.review?.decision === "relabeled" && (
+                                      <Tag className="ml-auto h-4 w-4 text-amber-600 dark:text-amber-400" aria-label="Relabeled" />
+                                    )}
                               </div>
-                              <span className="ml-2 text-xs font-medium text-slate-600 dark:text-slate-300">
-                                {Math.round(clause.confidence)}%
-                              </span>
-                            </div>
-                          </div>
-                        ))
-                      ) : null;
-                    })
+                                  <p className="text-sm text-slate-600 dark:text-slate-200 line-clamp-2 mb-2">
+                                    {(() => {
+                                      const text = clause.correction?.selected_text ?? clause.selected_text
+                                      return text.length > 100 ? `${text.substring(0, 100)}...` : text
+                                    })()}
+                                  </p>
+                                  <div className="flex items-center">
+                                    <div className="w-full bg-slate-200 dark:bg-slate-800 h-1.5 rounded-full">
+                                      <div 
+                                        className="h-full rounded-full" 
+                                    style={{
+                                          width: `${clause.confidence}%`,
+                                          backgroundColor: clauseInfo.color 
+                                    }}
+                                  />
+                                    </div>
+                                    <span className="ml-2 text-xs font-medium text-slate-600 dark:text-slate-300">
+                                      {Math.round(clause.confidence)}%
+                                    </span>
+                                  </div>
+                                </div>
+                              ))
+                            ) : null;
+                          })
+                      )}
+                    </div>
+                </div>
+                </>
+              )}
+            </TabsContent>
+            <TabsContent value="notes" className="min-h-0 flex-1 overflow-y-auto p-4">
+              {document.id ? (
+                <NotesPanel
+                  documentId={document.id}
+                  annotations={[...document.clauses, ...userAnnotations]}
+                  clauses={clauses}
+                  onSelect={selectAnnotation}
+                />
+              ) : (
+                <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">Notes are unavailable for this document</p>
+              )}
+            </TabsContent>
+            <TabsContent value="search" className="min-h-0 flex-1 space-y-3 overflow-y-auto p-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  ref={searchInputRef}
+                  autoFocus
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      stepMatch(e.shiftKey ? -1 : 1)
+                    } else if (e.key === "Escape") {
+                      clearSearch()
+                    }
+                  }}
+                  placeholder="Search document"
+                  aria-label="Search document"
+                  className="h-8"
+                />
+                <Toggle
+                  size="sm"
+                  pressed={searchOptions.wholeWord}
+                  onPressedChange={(wholeWord) => setSearchOptions((prev) => ({ ...prev, wholeWord }))}
+                  aria-label="Match whole word"
+                  title="Match whole word"
+                  className="h-8 min-w-8 px-1.5"
+                >
+                  <WholeWord />
+                </Toggle>
+                <Toggle
+                  size="sm"
+                  pressed={searchOptions.regex}
+                  onPressedChange={(regex) => setSearchOptions((prev) => ({ ...prev, regex }))}
+                  aria-label="Use regular expression"
+                  title="Use regular expression"
+                  className="h-8 min-w-8 px-1.5"
+                >
+                  <Regex />
+                </Toggle>
+              </div>
+              <div className="flex items-center gap-1">
+                <span
+                  className={cn(
+                    "min-w-[5rem] flex-1 text-xs text-slate-600 dark:text-slate-300",
+                    searchError && "text-red-600 dark:text-red-400",
+                  )}
+                  aria-live="polite"
+                >
+                  {searchError
+                    ? "Invalid pattern"
+                    : searchMatches.length > 0
+                      ? `${activeMatchIndex + 1} of ${searchMatches.length}${searchMatches.length >= MAX_SEARCH_MATCHES ? "+" : ""}`
+                      : deferredSearchQuery
+                        ? "No matches"
+                        : ""}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => stepMatch(-1)}
+                  disabled={searchMatches.length === 0}
+                  aria-label="Previous match"
+                  title="Previous match (Shift+Enter)"
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => stepMatch(1)}
+                  disabled={searchMatches.length === 0}
+                  aria-label="Next match"
+                  title="Next match (Enter)"
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+                {searchQuery && (
+                  <Button variant="ghost" size="sm" className="h-8" onClick={clearSearch}>
+                    Clear
+                  </Button>
                 )}
               </div>
-          </div>
+              <div className="space-y-1">
+                {searchMatches.slice(0, MAX_LISTED_MATCHES).map((match) => (
+                  <button
+                    key={match.id}
+                    type="button"
+                    onClick={() => goToMatch(match.data.index)}
+                    className={cn(
+                      "w-full rounded-md px-3 py-2 text-left text-sm text-slate-600 hover:bg-slate-100 dark:text-slate-300 dark:hover:bg-slate-700/50",
+                      match.data.index === activeMatchIndex && "bg-slate-100 dark:bg-slate-700/50",
+                    )}
+                  >
+                    <span className="mr-2 text-xs text-slate-400">p. {findPageForPosition(pageIndex, match.start)}</span>
+                    {match.data.before}
+                    <mark className="search-hit">{match.data.text}</mark>
+                    {match.data.after}
+                  </button>
+                ))}
+                {searchMatches.length > MAX_LISTED_MATCHES && (
+                  <p className="px-3 py-2 text-xs text-slate-500 dark:text-slate-400">
+                    Showing the first {MAX_LISTED_MATCHES} matches; use next / previous to reach the rest
+                  </p>
+                )}
+              </div>
+            </TabsContent>
+          </Tabs>
         </Card>
-        </div>
-      </div>
-    </div>
+      </ResizablePanel>
+    </ResizablePanelGroup>
   )
 }
-
@@ -3,19 +3,79 @@
 import type React from "react"
 
 import { useState, useRef } from "react"
-import { FileUp, File, X, Loader2, FileIcon as FilePdf, FileIcon as FileWord } from "lucide-react"
+import { FileUp, File, X, Loader2, CheckCircle, AlertCircle, FileIcon as FilePdf, FileIcon as FileWord } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
 import { Button } from "@/components/ui/button"
+import { Progress } from "@/components/ui/progress"
 import { cn } from "@/lib/utils"
+import { computeFileHash, formatFileSize, validateFiles, type RejectedFile } from "@/lib/file-validation"
+import type { Document } from "@/lib/api"
+
+export interface FileUploadState {
+  id: string
+  name: string
+  progress: number // Percentage of the file sent so far
+  status: "queued" | "uploading" | "done" | "failed" | "cancelled"
+  error?: string
+}
+
+// A file cleared for upload, with what the duplicate check learned about it
+export interface PendingUpload {
+  file: File
+  sha256?: string
+  previousVersionId?: string
+}
+
+type DuplicateChoice = "open" | "version" | "upload" | "skip"
+
+interface DuplicatePrompt {
+  file: File
+  existing: Document
+  resolve: (choice: DuplicateChoice) => void
+}
 
 interface FileUploaderProps {
-  onFilesSelected: (files: File[]) => void
+  onFilesSelected: (uploads: PendingUpload[]) => void
   isUploading: boolean
   acceptedFileTypes: string[]
+  maxFileSize?: number // Bytes
+  maxFiles?: number
+  uploads?: FileUploadState[]
+  onCancelUpload?: (id: string) => void
+  onClearUploads?: () => void
+  // Duplicate detection: resolve an existing document with the same SHA-256, or null
+  findDuplicate?: (sha256: string) => Promise<Document | null>
+  onOpenExisting?: (document: Document) => void
 }
 
-export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }: FileUploaderProps) {
+const DEFAULT_MAX_FILE_SIZE = 200 * 1024 * 1024
+const DEFAULT_MAX_FILES = 20
+
+export function FileUploader({
+  onFilesSelected,
+  isUploading,
+  acceptedFileTypes,
+  maxFileSize = DEFAULT_MAX_FILE_SIZE,
+  maxFiles = DEFAULT_MAX_FILES,
+  uploads = [],
+  onCancelUpload,
+  onClearUploads,
+  findDuplicate,
+  onOpenExisting,
+}: FileUploaderProps) {
   const [dragActive, setDragActive] = useState(false)
   const [selectedFiles, setSelectedFiles] = useState<File[]>([])
+  const [rejectedFiles, setRejectedFiles] = useState<RejectedFile[]>([])
+  const [isCheckingDuplicates, setIsCheckingDuplicates] = useState(false)
+  const [duplicatePrompt, setDuplicatePrompt] = useState<DuplicatePrompt | null>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
   const handleDrag = (e: React.DragEvent) => {
@@ -29,11 +89,16 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
     }
   }
 
-  const validateFiles = (files: File[]) => {
-    return files.filter((file) => {
-      const extension = `.${file.name.split(".").pop()?.toLowerCase()}`
-      return acceptedFileTypes.includes(extension)
+  // New files are added to the current selection; anything turned away is listed with its reason
+  const addFiles = async (files: File[]) => {
+    const { accepted, rejected } = await validateFiles(files, {
+      acceptedFileTypes,
+      maxFileSize,
+      maxFiles,
+      existingNames: selectedFiles.map((file) => file.name),
     })
+    setSelectedFiles((prev) => [...prev, ...accepted])
+    setRejectedFiles(rejected)
   }
 
   const handleDrop = (e: React.DragEvent) => {
@@ -42,8 +107,7 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
     setDragActive(false)
 
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      const validFiles = validateFiles(Array.from(e.dataTransfer.files))
-      setSelectedFiles(validFiles)
+      addFiles(Array.from(e.dataTransfer.files))
     }
   }
 
@@ -51,16 +115,66 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
     e.preventDefault()
 
     if (e.target.files && e.target.files.length > 0) {
-      const validFiles = validateFiles(Array.from(e.target.files))
-      setSelectedFiles(validFiles)
+      addFiles(Array.from(e.target.files))
+      // Reset so choosing the same file again still fires a change event
+      e.target.value = ""
     }
   }
 
-  const handleUpload = () => {
-    if (selectedFiles.length > 0) {
-      onFilesSelected(selectedFiles)
-      setSelectedFiles([])
+  const askAboutDuplicate = (file: File, existing: Document) =>
+    new Promise<DuplicateChoice>((resolve) => setDuplicatePrompt({ file, existing, resolve }))
+
+  const answerDuplicate = (choice: DuplicateChoice) => {
+    duplicatePrompt?.resolve(choice)
+    setDuplicatePrompt(null)
+  }
+
+  // Hash each file and ask, one file at a time, what to do with any that were uploaded before
+  const checkForDuplicates = async (files: File[]): Promise<PendingUpload[] | null> => {
+    const pending: PendingUpload[] = []
+
+    for (const file of files) {
+      let sha256: string | null = null
+      let existing: Document | null = null
+      try {
+        sha256 = await computeFileHash(file)
+        existing = sha256 && findDuplicate ? await findDuplicate(sha256) : null
+      } catch (error) {
+        // A failed lookup shouldn't block the upload; the file goes up as new
+        console.error("Duplicate check failed:", error)
+      }
+
+      if (!existing) {
+        pending.push({ file, sha256: sha256 || undefined })
+        continue
+      }
+
+      const choice = await askAboutDuplicate(file, existing)
+      if (choice === "open") {
+        onOpenExisting?.(existing)
+        return null
+      }
+      if (choice === "version") {
+        pending.push({ file, sha256: sha256 || undefined, previousVersionId: existing.id })
+      } else if (choice === "upload") {
+        pending.push({ file, sha256: sha256 || undefined })
+      }
     }
+
+    return pending
+  }
+
+  const handleUpload = async () => {
+    if (selectedFiles.length === 0) return
+
+    setIsCheckingDuplicates(true)
+    const pending = await checkForDuplicates(selectedFiles)
+    setIsCheckingDuplicates(false)
+    if (!pending) return
+
+    if (pending.length > 0) onFilesSelected(pending)
+    setSelectedFiles([])
+    setRejectedFiles([])
   }
 
   const removeFile = (index: number) => {
@@ -80,6 +194,16 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
     return <File className="h-5 w-5 text-slate-400" />
   }
 
+  const countByStatus = (status: FileUploadState["status"]) => uploads.filter((upload) => upload.status === status).length
+
+  const uploadSummary = [
+    `${countByStatus("done")} uploaded`,
+    countByStatus("failed") > 0 && `${countByStatus("failed")} failed`,
+    countByStatus("cancelled") > 0 && `${countByStatus("cancelled")} cancelled`,
+  ]
+    .filter(Boolean)
+    .join(", ")
+
   return (
     <div className="rounded-lg border bg-white p-5 shadow-sm dark:border-slate-700 dark:bg-slate-800">
       <div
@@ -125,7 +249,10 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
         <p className="mb-3 text-center text-sm text-slate-500 dark:text-slate-400">
           Drag and drop your legal documents here, or click to browse
           <br />
-          <span className="text-xs">Supported formats: {acceptedFileTypes.join(", ")}</span>
+          <span className="text-xs">
+            Supported formats: {acceptedFileTypes.join(", ")} · Up to {formatFileSize(maxFileSize)} each, {maxFiles} files
+            at a time
+          </span>
         </p>
 
         <Button
@@ -138,6 +265,34 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
         </Button>
       </div>
 
+      {rejectedFiles.length > 0 && (
+        <div className="mt-4 rounded-md border border-red-200 bg-red-50 p-3 dark:border-red-900/50 dark:bg-red-900/10">
+          <div className="mb-2 flex items-center justify-between">
+            <h4 className="flex items-center gap-2 text-sm font-medium text-red-800 dark:text-red-300">
+              <AlertCircle className="h-4 w-4" />
+              {rejectedFiles.length} file{rejectedFiles.length > 1 ? "s" : ""} not added
+            </h4>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setRejectedFiles([])}
+              className="h-7 w-7 text-red-700 hover:text-red-900 dark:text-red-400 dark:hover:text-red-300"
+              aria-label="Dismiss rejected files"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+          <ul className="max-h-32 space-y-1 overflow-y-auto">
+            {rejectedFiles.map(({ file, reason }, index) => (
+              <li key={`${file.name}-${index}`} className="text-sm">
+                <span className="font-medium text-slate-800 dark:text-slate-200">{file.name}</span>
+                <span className="text-red-700 dark:text-red-400"> — {reason}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {selectedFiles.length > 0 && (
         <div className="mt-4 space-y-3">
           <div className="flex items-center justify-between">
@@ -172,10 +327,15 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
           <div className="flex justify-end">
             <Button
               onClick={handleUpload}
-              disabled={isUploading}
+              disabled={isUploading || isCheckingDuplicates}
               className="bg-blue-700 hover:bg-blue-800 dark:bg-blue-700 dark:hover:bg-blue-800"
             >
-              {isUploading ? (
+              {isCheckingDuplicates ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Checking for duplicates...
+                </>
+              ) : isUploading ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
                   Uploading...
@@ -189,6 +349,104 @@ export function FileUploader({ onFilesSelected, isUploading, acceptedFileTypes }
           </div>
         </div>
       )}
+
+      {uploads.length > 0 && (
+        <div className="mt-4 space-y-3">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-slate-800 dark:text-white">{isUploading ? "Uploading" : "Upload Summary"}</h4>
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-slate-500 dark:text-slate-400">{uploadSummary}</span>
+              {!isUploading && onClearUploads && (
+                <Button variant="ghost" size="sm" className="h-7" onClick={onClearUploads}>
+                  Dismiss
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <ul className="max-h-60 space-y-2 overflow-y-auto rounded-md border border-slate-200 p-2 dark:border-slate-700">
+            {uploads.map((upload) => (
+              <li
+                key={upload.id}
+                className="space-y-2 rounded-md border border-slate-200 bg-slate-50 p-2 dark:border-slate-700 dark:bg-slate-800/50"
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex min-w-0 items-center gap-2">
+                    {getFileIcon(upload.name)}
+                    <span className="truncate text-sm font-medium text-slate-700 dark:text-slate-300">{upload.name}</span>
+                  </div>
+                  {upload.status === "queued" || upload.status === "uploading" ? (
+                    <div className="flex shrink-0 items-center gap-1">
+                      <span className="text-xs text-slate-500 dark:text-slate-400">
+                        {upload.status === "queued" ? "Queued" : `${upload.progress}%`}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onCancelUpload?.(upload.id)}
+                        className="h-7 w-7 text-slate-500 hover:text-slate-700 dark:text-slate-400 dark:hover:text-slate-300"
+                        aria-label={`Cancel upload of ${upload.name}`}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ) : upload.status === "done" ? (
+                    <span className="flex shrink-0 items-center gap-1 text-xs text-green-700 dark:text-green-500">
+                      <CheckCircle className="h-4 w-4" />
+                      Uploaded
+                    </span>
+                  ) : upload.status === "failed" ? (
+                    <span className="flex shrink-0 items-center gap-1 text-xs text-red-700 dark:text-red-400">
+                      <AlertCircle className="h-4 w-4" />
+                      Failed
+                    </span>
+                  ) : (
+                    <span className="shrink-0 text-xs text-slate-500 dark:text-slate-400">Cancelled</span>
+                  )}
+                </div>
+                {(upload.status === "queued" || upload.status === "uploading") && (
+                  <Progress value={upload.progress} className="h-1.5" aria-label={`${upload.name} upload progress`} />
+                )}
+                {upload.error && <p className="text-xs text-red-600 dark:text-red-400">{upload.error}</p>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <AlertDialog open={duplicatePrompt !== null} onOpenChange={(open) => !open && answerDuplicate("skip")}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>This document was already uploaded</AlertDialogTitle>
+            <AlertDialogDescription>
+              {duplicatePrompt?.file.name} has the same content as{" "}
+              <span className="font-medium text-slate-700 dark:text-slate-200">{duplicatePrompt?.existing.name}</span>
+              {duplicatePrompt?.existing.upload_date &&
+                `, uploaded ${new Date(duplicatePrompt.existing.upload_date).toLocaleDateString("en-US", {
+                  year: "numeric",
+                  month: "short",
+                  day: "numeric",
+                })}`}
+              . Open the existing analysis, or upload this file again?
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2 sm:gap-0">
+            <AlertDialogCancel>Skip file</AlertDialogCancel>
+            <Button variant="outline" onClick={() => answerDuplicate("upload")}>
+              Upload anyway
+            </Button>
+            <Button variant="outline" onClick={() => answerDuplicate("version")}>
+              Upload as new version
+            </Button>
+            <Button
+              onClick={() => answerDuplicate("open")}
+              className="bg-blue-700 hover:bg-blue-800 dark:bg-blue-700 dark:hover:bg-blue-800"
+            >
+              Open existing analysis
+            </Button>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   )
 }
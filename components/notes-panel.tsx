@@ -0,0 +1,262 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { MessageSquare, Edit3, Trash2, LocateFixed, Search } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/components/ui/use-toast"
+import {
+  convertClauseTypeToFrontendFormat,
+  deleteNote,
+  getAnnotationId,
+  getDocumentNotes,
+  getEffectiveClauseType,
+  updateNote,
+  type DocumentAnnotation,
+  type Note,
+} from "@/lib/api"
+import { describeClauseType, type ClauseConfig } from "@/lib/clause-taxonomy"
+
+interface NotesPanelProps {
+  documentId: string
+  annotations: DocumentAnnotation[]
+  clauses: ClauseConfig
+  onSelect: (annotation: DocumentAnnotation) => void
+}
+
+// Characters of the annotated text shown above each note
+const EXCERPT_LENGTH = 120
+
+function formatTimestamp(dateString: string) {
+  try {
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    })
+  } catch {
+    return dateString
+  }
+}
+
+export function NotesPanel({ documentId, annotations, clauses, onSelect }: NotesPanelProps) {
+  const { toast } = useToast()
+  const [notes, setNotes] = useState<Note[]>([])
+  const [loading, setLoading] = useState(true)
+  const [query, setQuery] = useState("")
+  const [editingId, setEditingId] = useState<number | null>(null)
+  const [draft, setDraft] = useState("")
+  const [isSaving, setIsSaving] = useState(false)
+  const [pendingDelete, setPendingDelete] = useState<Note | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    setLoading(true)
+    getDocumentNotes(documentId)
+      .then((data) => !cancelled && setNotes(data || []))
+      .catch((error) => console.error("Error fetching notes:", error))
+      .finally(() => !cancelled && setLoading(false))
+    return () => {
+      cancelled = true
+    }
+  }, [documentId])
+
+  const saveEdit = async (note: Note) => {
+    setIsSaving(true)
+    try {
+      await updateNote(documentId, note.id, draft)
+      setNotes((prev) =>
+        prev.map((candidate) =>
+          candidate.id === note.id ? { ...candidate, text: draft, updated_at: new Date().toISOString() } : candidate,
+        ),
+      )
+      setEditingId(null)
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to save note. Please try again",
+        variant: "destructive",
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return
+    const note = pendingDelete
+    setPendingDelete(null)
+    try {
+      await deleteNote(documentId, note.id)
+      setNotes((prev) => prev.filter((candidate) => candidate.id !== note.id))
+      toast({ title: "Note deleted" })
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete note. Please try again",
+        variant: "destructive",
+      })
+    }
+  }
+
+  if (loading) {
+    return <p className="py-6 text-center text-sm text-slate-500 dark:text-slate-400">Loading notes...</p>
+  }
+
+  if (notes.length === 0) {
+    return (
+      <div className="flex flex-col items-center gap-2 py-8 text-center text-sm text-slate-500 dark:text-slate-400">
+        <MessageSquare className="h-5 w-5" />
+        No notes on this document yet
+      </div>
+    )
+  }
+
+  const entries = notes
+    .map((note) => {
+      const annotation = annotations.find((candidate) => getAnnotationId(candidate) === note.annotation_id) || null
+      const clauseType = annotation ? convertClauseTypeToFrontendFormat(getEffectiveClauseType(annotation)) : null
+      const clauseInfo = clauseType ? clauses[clauseType] || describeClauseType(clauseType) : null
+      const excerpt = annotation ? annotation.correction?.selected_text ?? annotation.selected_text : ""
+      return { note, annotation, clauseInfo, excerpt }
+    })
+    .sort((a, b) => b.note.updated_at.localeCompare(a.note.updated_at))
+
+  const normalizedQuery = query.trim().toLowerCase()
+  const visibleEntries = normalizedQuery
+    ? entries.filter(({ note, clauseInfo, excerpt }) =>
+        [note.text, excerpt, clauseInfo?.name || ""].some((text) => text.toLowerCase().includes(normalizedQuery)),
+      )
+    : entries
+
+  return (
+    <div className="space-y-3">
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2 h-4 w-4 text-slate-400" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search notes"
+          aria-label="Search notes"
+          className="h-8 pl-8"
+        />
+      </div>
+      <p className="text-xs text-slate-500 dark:text-slate-400">
+        {normalizedQuery ? `${visibleEntries.length} of ${notes.length} notes` : `${notes.length} notes`}
+      </p>
+
+      {visibleEntries.map(({ note, annotation, clauseInfo, excerpt }) => (
+        <div key={note.id} className="rounded-md bg-slate-50 p-3 dark:bg-slate-800/30">
+          <div className="mb-2 flex items-center gap-2">
+            <div className="h-3 w-3 shrink-0 rounded-full" style={{ backgroundColor: clauseInfo?.color || "#94A3B8" }} />
+            <span className="truncate text-xs font-medium text-slate-700 dark:text-slate-300">
+              {clauseInfo?.name || "Removed annotation"}
+            </span>
+            <div className="ml-auto flex shrink-0 items-center">
+              {annotation && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-slate-500 dark:text-slate-400"
+                  onClick={() => onSelect(annotation)}
+                  aria-label="Jump to annotation"
+                  title="Jump to annotation"
+                >
+                  <LocateFixed className="h-3.5 w-3.5" />
+                </Button>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-slate-500 dark:text-slate-400"
+                onClick={() => {
+                  setEditingId(note.id)
+                  setDraft(note.text)
+                }}
+                aria-label="Edit note"
+                title="Edit note"
+              >
+                <Edit3 className="h-3.5 w-3.5" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-red-600 hover:text-red-700 dark:text-red-400"
+                onClick={() => setPendingDelete(note)}
+                aria-label="Delete note"
+                title="Delete note"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          </div>
+
+          {excerpt && (
+            <p
+              className="mb-2 border-l-[3px] pl-2 text-xs text-slate-500 dark:text-slate-400"
+              style={{ borderColor: clauseInfo?.color }}
+            >
+              {excerpt.length > EXCERPT_LENGTH ? `${excerpt.substring(0, EXCERPT_LENGTH)}...` : excerpt}
+            </p>
+          )}
+
+          {editingId === note.id ? (
+            <>
+              <Textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                className="min-h-[80px] resize-none bg-white text-sm dark:bg-slate-800"
+                autoFocus
+              />
+              <div className="mt-2 flex justify-end gap-2">
+                <Button variant="outline" size="sm" className="h-8" onClick={() => setEditingId(null)} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button size="sm" className="h-8" onClick={() => saveEdit(note)} disabled={isSaving || !draft.trim()}>
+                  {isSaving ? "Saving..." : "Save Note"}
+                </Button>
+              </div>
+            </>
+          ) : (
+            <p className="whitespace-pre-wrap text-sm text-slate-700 dark:text-slate-200">{note.text}</p>
+          )}
+
+          <p className="mt-2 text-[11px] text-slate-400">
+            Added {formatTimestamp(note.created_at)}
+            {note.updated_at !== note.created_at && ` · Edited ${formatTimestamp(note.updated_at)}`}
+          </p>
+        </div>
+      ))}
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete this note?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The note will be removed from the document for every reviewer. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete} className="bg-red-600 hover:bg-red-700">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  )
+}
@@ -0,0 +1,30 @@
+import * as React from "react"
+
+// State mirrored to localStorage, so viewer preferences survive reloads for the same browser profile.
+// The stored value is read after mount to keep the first client render identical to the server's
+export function usePersistedState<T>(key: string, defaultValue: T) {
+  const [value, setValue] = React.useState<T>(defaultValue)
+
+  React.useEffect(() => {
+    try {
+      const stored = window.localStorage.getItem(key)
+      if (stored !== null) setValue(JSON.parse(stored) as T)
+    } catch {
+      // Unreadable or malformed entries fall back to the default
+    }
+  }, [key])
+
+  const setPersistedValue = React.useCallback(
+    (next: T) => {
+      setValue(next)
+      try {
+        window.localStorage.setItem(key, JSON.stringify(next))
+      } catch {
+        // Storage can be full or disabled; the preference then lasts for this session only
+      }
+    },
+    [key],
+  )
+
+  return [value, setPersistedValue] as const
+}
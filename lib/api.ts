@@ -1,7 +1,12 @@
 // API client for the legal document analyzer backend
 
+import { describeClauseType, type ClauseType } from '@/lib/clause-taxonomy';
+import { deleteUploadRecord, getUploadKey, getUploadRecord, saveUploadRecord } from '@/lib/upload-store';
+
 // Base API URL - configure in .env if needed
 const API_BASE_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:8000';
+// Chunked uploads can be pointed elsewhere, e.g. '/api' for the stand-in server in app/api/uploads
+const UPLOAD_API_URL = process.env.NEXT_PUBLIC_UPLOAD_API_URL || API_BASE_URL;
 
 // Type definitions
 export interface ClausePosition {
@@ -16,6 +21,43 @@ export interface ClauseResult {
   position?: ClausePosition;
 }
 
+// A clause finding or reviewer annotation as shown in the viewer
+export interface DocumentAnnotation extends ClauseResult {
+  type: string;
+  user?: boolean;
+  id?: string; // Server ID, only set for persisted user annotations
+  review?: ClauseReview; // Reviewer decision, only set for AI findings
+  correction?: SpanCorrection; // Reviewer-adjusted span, only set for AI findings
+}
+
+// A reviewer's correction of an AI finding's span; the finding keeps its original position
+export interface SpanCorrection {
+  annotation_id: string;
+  position: ClausePosition;
+  selected_text: string;
+  updated_at: string;
+}
+
+export type ReviewDecision = 'accepted' | 'rejected' | 'relabeled';
+
+// A reviewer's decision on an AI-detected clause
+export interface ClauseReview {
+  annotation_id: string;
+  decision: ReviewDecision;
+  relabeled_type?: string; // Backend clause type, set when decision is 'relabeled'
+  updated_at: string;
+}
+
+// A reviewer-created annotation persisted by the backend
+export interface UserAnnotation extends DocumentAnnotation {
+  id: string;
+  user: true;
+  created_at: string;
+  updated_at: string;
+}
+
+export type UserAnnotationInput = Pick<UserAnnotation, 'type' | 'selected_text' | 'reason' | 'position'>;
+
 export interface DocumentResults {
   [clauseType: string]: ClauseResult[];
 }
@@ -35,34 +77,266 @@ export interface Document {
   upload_date: string;
   status: 'processing' | 'completed' | 'failed';
   clauses?: string[]; // For frontend display purposes
+  sha256?: string; // Hex digest of the uploaded file, when the backend recorded one
+  previous_version_id?: string; // Set when uploaded as a new version of another document
+}
+
+export interface Note {
+  id: number;
+  annotation_id: string;
+  text: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface UploadOptions {
+  // Called with the percentage of the request body sent so far (0-100)
+  onProgress?: (percent: number) => void;
+  signal?: AbortSignal;
+  sha256?: string; // Lets the backend answer later duplicate lookups
+  previousVersionId?: string; // Upload as a new version of this document
 }
 
 // API functions
-export async function uploadDocument(file: File): Promise<Document> {
-  const formData = new FormData();
-  formData.append('file', file);
 
-  try {
-    const response = await fetch(`${API_BASE_URL}/upload`, {
-      method: 'POST',
-      body: formData,
-    });
+// Files at or above this size use the resumable chunked protocol
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+// Attempts per chunk before the upload is reported as failed
+const CHUNK_ATTEMPTS = 4;
+const CHUNK_RETRY_DELAY_MS = 1000;
 
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || `Failed to upload document: ${response.statusText}`);
+type RequestError = Error & { status?: number };
+
+// Body returned once an upload is accepted, by /upload and by completing a chunked upload
+interface UploadedDocumentResponse {
+  document_id: string;
+  name: string;
+  upload_date: string;
+  status: Document['status'];
+  sha256?: string;
+  previous_version_id?: string;
+}
+
+function getErrorMessage(data: unknown): string | undefined {
+  if (typeof data !== 'object' || data === null || !('error' in data)) return undefined;
+  return typeof data.error === 'string' ? data.error : undefined;
+}
+
+function uploadCancelled() {
+  return new DOMException('Upload cancelled', 'AbortError');
+}
+
+// XMLHttpRequest wrapper for upload requests, because fetch does not report upload progress.
+// Resolves with the parsed JSON body, typed by the caller; rejects with the server's error message
+// and status, or with a DOMException named "AbortError" when the signal fires, like fetch does
+function sendUploadRequest<T>(
+  method: string,
+  url: string,
+  body: XMLHttpRequestBodyInit | null,
+  { onProgress, signal }: { onProgress?: (loaded: number, total: number) => void; signal?: AbortSignal } = {}
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(uploadCancelled());
+      return;
     }
 
-    const data = await response.json();
-    return {
-      id: data.document_id,
-      name: data.name,
-      upload_date: data.upload_date,
-      status: data.status,
-      clauses: [] // No clauses yet since it's just being processed
+    const request = new XMLHttpRequest();
+    request.open(method, url);
+
+    if (typeof body === 'string') request.setRequestHeader('Content-Type', 'application/json');
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress?.(event.loaded, event.total);
+    };
+
+    request.onload = () => {
+      let data: unknown = null;
+      try {
+        data = JSON.parse(request.responseText);
+      } catch {
+        // Non-JSON bodies are reported through the status text below
+      }
+
+      if (request.status < 200 || request.status >= 300) {
+        const error: RequestError = new Error(getErrorMessage(data) || `Failed to upload document: ${request.statusText || request.status}`);
+        error.status = request.status;
+        reject(error);
+        return;
+      }
+      resolve(data as T);
+    };
+
+    request.onerror = () => reject(new Error('Failed to upload document: network error'));
+    request.onabort = () => reject(uploadCancelled());
+    // One signal covers every chunk and retry of an upload, so each request takes its listener back
+    const abort = () => request.abort();
+    signal?.addEventListener('abort', abort, { once: true });
+    request.onloadend = () => signal?.removeEventListener('abort', abort);
+
+    request.send(body);
+  });
+}
+
+function toDocument(data: UploadedDocumentResponse): Document {
+  return {
+    id: data.document_id,
+    name: data.name,
+    upload_date: data.upload_date,
+    status: data.status,
+    sha256: data.sha256,
+    previous_version_id: data.previous_version_id,
+    clauses: [] // No clauses yet since it's just being processed
+  };
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abort = () => {
+      clearTimeout(timer);
+      reject(uploadCancelled());
     };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', abort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', abort, { once: true });
+  });
+}
+
+// Server state of a chunked upload, as returned when it is started or looked up
+interface ChunkedUpload {
+  upload_id: string;
+  chunk_size: number;
+  received_chunks: number[];
+}
+
+// Resumable upload: initiate (or look up a stored upload), PUT each missing chunk, then complete.
+// The upload ID is kept in IndexedDB until completion, so selecting the same file again after
+// a reload or failure only sends the chunks the server doesn't have yet
+async function uploadDocumentInChunks(
+  file: File,
+  { onProgress, signal, sha256, previousVersionId }: UploadOptions
+): Promise<Document> {
+  const key = getUploadKey(file);
+  let upload: ChunkedUpload | null = null;
+
+  const stored = await getUploadRecord(key);
+  if (stored) {
+    try {
+      upload = await sendUploadRequest<ChunkedUpload>('GET', `${UPLOAD_API_URL}/uploads/${stored.upload_id}`, null, { signal });
+    } catch (error) {
+      if (error instanceof DOMException) throw error;
+      // Expired or unknown on the server; start over
+      await deleteUploadRecord(key);
+    }
+  }
+
+  if (!upload) {
+    try {
+      upload = await sendUploadRequest<ChunkedUpload>(
+        'POST',
+        `${UPLOAD_API_URL}/uploads`,
+        JSON.stringify({
+          name: file.name,
+          size: file.size,
+          content_type: file.type,
+          sha256,
+          previous_version_id: previousVersionId,
+        }),
+        { signal }
+      );
+    } catch (error) {
+      const status = (error as RequestError).status;
+      // Backends without the chunked protocol still take the file in one request
+      if (status === 404 || status === 405) return uploadDocumentInOneRequest(file, { onProgress, signal, sha256, previousVersionId });
+      throw error;
+    }
+  }
+
+  const { upload_id: uploadId, chunk_size: chunkSize } = upload!;
+  await saveUploadRecord({ key, upload_id: uploadId, chunk_size: chunkSize, updated_at: new Date().toISOString() });
+
+  try {
+    const uploaded = await sendChunks(file, upload!, { onProgress, signal });
+    await deleteUploadRecord(key);
+    return uploaded;
+  } catch (error) {
+    // A cancelled upload is abandoned rather than kept for resuming, so its chunks are dropped too
+    if (error instanceof DOMException && error.name === 'AbortError') {
+      await deleteUploadRecord(key);
+      fetch(`${UPLOAD_API_URL}/uploads/${uploadId}`, { method: 'DELETE' }).catch((deleteError) =>
+        console.error('Error discarding cancelled upload:', deleteError)
+      );
+    }
+    throw error;
+  }
+}
+
+// PUT each chunk the server is missing, retrying transient failures, then complete the upload
+async function sendChunks(
+  file: File,
+  { upload_id: uploadId, chunk_size: chunkSize, received_chunks }: ChunkedUpload,
+  { onProgress, signal }: UploadOptions
+): Promise<Document> {
+  const chunkCount = Math.ceil(file.size / chunkSize);
+  const received = new Set(received_chunks);
+  let sentBytes = 0;
+  for (const index of Array.from(received)) {
+    sentBytes += Math.min(chunkSize, file.size - index * chunkSize);
+  }
+  const reportProgress = (inFlight: number) => onProgress?.(Math.round(((sentBytes + inFlight) / file.size) * 100));
+  reportProgress(0);
+
+  for (let index = 0; index < chunkCount; index++) {
+    if (received.has(index)) continue;
+    const chunk = file.slice(index * chunkSize, Math.min((index + 1) * chunkSize, file.size));
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sendUploadRequest<unknown>('PUT', `${UPLOAD_API_URL}/uploads/${uploadId}/chunks/${index}`, chunk, {
+          signal,
+          onProgress: (loaded) => reportProgress(loaded),
+        });
+        break;
+      } catch (error) {
+        const status = (error as RequestError).status;
+        const retryable = !(error instanceof DOMException) && (status === undefined || status >= 500);
+        if (!retryable || attempt === CHUNK_ATTEMPTS) {
+          if (!(error instanceof DOMException)) console.error("Upload error:", error);
+          throw error;
+        }
+        await wait(CHUNK_RETRY_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+
+    sentBytes += chunk.size;
+    reportProgress(0);
+  }
+
+  const data = await sendUploadRequest<UploadedDocumentResponse>('POST', `${UPLOAD_API_URL}/uploads/${uploadId}/complete`, null, { signal });
+  return toDocument(data);
+}
+
+// Small files go up in a single request; large ones use the resumable chunked protocol.
+// An aborted upload rejects with a DOMException named "AbortError", like fetch does
+export async function uploadDocument(file: File, options: UploadOptions = {}): Promise<Document> {
+  return file.size >= CHUNKED_UPLOAD_THRESHOLD ? uploadDocumentInChunks(file, options) : uploadDocumentInOneRequest(file, options);
+}
+
+async function uploadDocumentInOneRequest(file: File, options: UploadOptions): Promise<Document> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.sha256) formData.append('sha256', options.sha256);
+  if (options.previousVersionId) formData.append('previous_version_id', options.previousVersionId);
+
+  try {
+    const data = await sendUploadRequest<UploadedDocumentResponse>('POST', `${API_BASE_URL}/upload`, formData, {
+      signal: options.signal,
+      onProgress: (loaded, total) => options.onProgress?.(Math.round((loaded / total) * 100)),
+    });
+    return toDocument(data);
   } catch (error) {
-    console.error("Upload error:", error);
+    if (!(error instanceof DOMException)) console.error("Upload error:", error);
     throw error;
   }
 }
@@ -115,34 +389,131 @@ export async function deleteDocument(documentId: string): Promise<void> {
   }
 }
 
+// Looks up an existing document with the same file content; null when there is none
+export async function findDocumentByHash(sha256: string): Promise<Document | null> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/by-hash/${sha256}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Failed to look up document hash: ${response.status}`);
+    }
+
+    return await response.json();
+  } catch (error) {
+    console.error('Error looking up document hash:', error);
+    throw error;
+  }
+}
+
+// How often the polling fallback refetches the document list
+const STATUS_POLL_INTERVAL_MS = 5000;
+
+// Streams document status changes from /documents/events, falling back to polling
+// /documents when EventSource is unavailable or the stream is closed by the server.
+// Each event payload has the same shape as an entry from fetchDocuments().
+// Returns a function that ends the subscription
+export function subscribeToDocumentStatus(onUpdate: (document: Document) => void): () => void {
+  let source: EventSource | null = null;
+  let pollTimer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const poll = async () => {
+    try {
+      const documents = await fetchDocuments();
+      if (!closed) documents.forEach(onUpdate);
+    } catch {
+      // fetchDocuments already logs; the next tick retries
+    }
+  };
+
+  const startPolling = () => {
+    if (closed || pollTimer) return;
+    poll();
+    pollTimer = setInterval(poll, STATUS_POLL_INTERVAL_MS);
+  };
+
+  if (typeof EventSource === 'undefined') {
+    startPolling();
+  } else {
+    source = new EventSource(`${API_BASE_URL}/documents/events`);
+    source.addEventListener('status', (event) => {
+      try {
+        onUpdate(JSON.parse((event as MessageEvent<string>).data));
+      } catch (error) {
+        console.error("Malformed status event:", error);
+      }
+    });
+    source.onerror = () => {
+      // EventSource reconnects by itself on transient errors; CLOSED means it gave up
+      if (source?.readyState === EventSource.CLOSED) {
+        source = null;
+        startPolling();
+      }
+    };
+  }
+
+  return () => {
+    closed = true;
+    source?.close();
+    if (pollTimer) clearInterval(pollTimer);
+  };
+}
+
+export async function fetchClauseTypes(): Promise<ClauseType[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/clause-types`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch clause types: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.clause_types;
+  } catch (error) {
+    console.error('Error fetching clause types:', error);
+    throw error;
+  }
+}
+
 // Helper functions for displaying results
 export function getClauseDisplayName(clauseType: string): string {
-  // Convert snake_case to display names
-  const displayNames: Record<string, string> = {
-    'force_majeure': 'Force Majeure',
-    'limitation_of_liability': 'Limitation of Liability',
-    'assignment': 'Assignment',
-    'severability': 'Severability',
-    'no_waiver': 'No Waiver',
-    'confidentiality': 'Confidentiality',
-    'governing_law': 'Governing Law',
-  };
-  
-  return displayNames[clauseType] || clauseType.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase());
+  return describeClauseType(clauseType).name;
 }
 
 export function getClauseColor(clauseType: string): string {
-  const colors: Record<string, string> = {
-    'force_majeure': '#6366F1', // Indigo
-    'limitation_of_liability': '#0EA5E9', // Sky blue
-    'assignment': '#F97316', // Orange
-    'severability': '#EC4899', // Pink
-    'no_waiver': '#14B8A6', // Teal
-    'confidentiality': '#10B981', // Emerald
-    'governing_law': '#64748B', // Slate
-  };
-  
-  return colors[clauseType] || '#64748B'; // Default to slate
+  return describeClauseType(clauseType).color;
+}
+
+// Notes are keyed by the server ID of user annotations, or by the clause type and
+// start offset for AI findings
+export function getAnnotationId(annotation: { type: string; position?: ClausePosition; id?: string }): string {
+  return annotation.id || `${annotation.type}-${annotation.position?.start}`;
+}
+
+// The clause type an annotation should be displayed and filtered as, taking relabels into account
+export function getEffectiveClauseType(annotation: DocumentAnnotation): string {
+  return annotation.review?.decision === 'relabeled' && annotation.review.relabeled_type
+    ? annotation.review.relabeled_type
+    : annotation.type;
+}
+
+// The span an annotation should be highlighted at, taking reviewer corrections into account
+export function getEffectivePosition(annotation: DocumentAnnotation): ClausePosition | undefined {
+  return annotation.correction?.position || annotation.position;
+}
+
+export type ConfidenceBand = 'high' | 'medium' | 'low';
+
+// Lower bound (inclusive) of each confidence band, highest first
+export const CONFIDENCE_BANDS: Array<{ band: ConfidenceBand; min: number; label: string }> = [
+  { band: 'high', min: 80, label: 'High (80%+)' },
+  { band: 'medium', min: 50, label: 'Medium (50-79%)' },
+  { band: 'low', min: 0, label: 'Low (<50%)' },
+];
+
+export function getConfidenceBand(confidence: number): ConfidenceBand {
+  return (CONFIDENCE_BANDS.find(({ min }) => confidence >= min) || CONFIDENCE_BANDS[CONFIDENCE_BANDS.length - 1]).band;
 }
 
 // Convert backend clause type (snake_case) to frontend clause type (kebab-case)
@@ -202,7 +573,7 @@ export async function getNoteForAnnotation(
 
 export async function getDocumentNotes(
   documentId: string
-): Promise<Array<{ id: number; annotation_id: string; text: string; created_at: string; updated_at: string }>> {
+): Promise<Note[]> {
   try {
     const response = await fetch(`${API_BASE_URL}/documents/${documentId}/notes`);
 
@@ -257,4 +628,216 @@ export async function deleteNote(
     console.error('Error deleting note:', error);
     throw error;
   }
-} 
\ No newline at end of file
+}
+
+// Mark annotations returned by the server as reviewer-created
+function toUserAnnotation(data: Omit<UserAnnotation, 'user' | 'confidence'>): UserAnnotation {
+  return { ...data, confidence: 100, user: true };
+}
+
+export async function fetchUserAnnotations(documentId: string): Promise<UserAnnotation[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/annotations`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get annotations: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.annotations.map(toUserAnnotation);
+  } catch (error) {
+    console.error('Error getting annotations:', error);
+    throw error;
+  }
+}
+
+export async function createUserAnnotation(
+  documentId: string,
+  annotation: UserAnnotationInput
+): Promise<UserAnnotation> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/annotations`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(annotation),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to create annotation: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return toUserAnnotation(data.annotation);
+  } catch (error) {
+    console.error('Error creating annotation:', error);
+    throw error;
+  }
+}
+
+export async function updateUserAnnotation(
+  documentId: string,
+  annotationId: string,
+  changes: Partial<UserAnnotationInput>
+): Promise<UserAnnotation> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/annotations/${annotationId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(changes),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to update annotation: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return toUserAnnotation(data.annotation);
+  } catch (error) {
+    console.error('Error updating annotation:', error);
+    throw error;
+  }
+}
+
+export async function deleteUserAnnotation(
+  documentId: string,
+  annotationId: string
+): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/annotations/${annotationId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to delete annotation: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error deleting annotation:', error);
+    throw error;
+  }
+}
+
+export async function fetchClauseReviews(documentId: string): Promise<ClauseReview[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/reviews`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get reviews: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.reviews;
+  } catch (error) {
+    console.error('Error getting reviews:', error);
+    throw error;
+  }
+}
+
+export async function saveClauseReview(
+  documentId: string,
+  annotationId: string,
+  decision: ReviewDecision,
+  relabeledType?: string
+): Promise<ClauseReview> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/reviews/${annotationId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ decision, relabeled_type: relabeledType }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save review: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.review;
+  } catch (error) {
+    console.error('Error saving review:', error);
+    throw error;
+  }
+}
+
+export async function deleteClauseReview(
+  documentId: string,
+  annotationId: string
+): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/reviews/${annotationId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reset review: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error resetting review:', error);
+    throw error;
+  }
+}
+
+export async function fetchSpanCorrections(documentId: string): Promise<SpanCorrection[]> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/corrections`);
+
+    if (!response.ok) {
+      throw new Error(`Failed to get span corrections: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.corrections;
+  } catch (error) {
+    console.error('Error getting span corrections:', error);
+    throw error;
+  }
+}
+
+export async function saveSpanCorrection(
+  documentId: string,
+  annotationId: string,
+  position: ClausePosition,
+  selectedText: string
+): Promise<SpanCorrection> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/corrections/${annotationId}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ position, selected_text: selectedText }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to save span correction: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return data.correction;
+  } catch (error) {
+    console.error('Error saving span correction:', error);
+    throw error;
+  }
+}
+
+export async function deleteSpanCorrection(
+  documentId: string,
+  annotationId: string
+): Promise<void> {
+  try {
+    const response = await fetch(`${API_BASE_URL}/documents/${documentId}/corrections/${annotationId}`, {
+      method: 'DELETE',
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to reset span correction: ${response.status}`);
+    }
+  } catch (error) {
+    console.error('Error resetting span correction:', error);
+    throw error;
+  }
+}
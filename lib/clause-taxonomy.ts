@@ -0,0 +1,124 @@
+// Clause taxonomy registry shared by the dashboard, viewer, exports and API helpers
+
+export type ClauseSeverity = "low" | "medium" | "high"
+
+export interface ClauseType {
+  key: string // Backend clause type (snake_case)
+  name: string
+  color: string
+  description: string
+  category: string
+  severity: ClauseSeverity
+}
+
+// Display configuration consumed by the viewer components, keyed by frontend (kebab-case) type
+export type ClauseConfig = Record<string, Omit<ClauseType, "key">>
+
+export const DEFAULT_CLAUSE_COLOR = "#64748B" // Slate
+
+// Local fallback used until (or when) the backend /clause-types endpoint answers
+export const DEFAULT_CLAUSE_TYPES: ClauseType[] = [
+  {
+    key: "force_majeure",
+    name: "Force Majeure",
+    color: "#6366F1", // Indigo
+    description: "Excuses performance when events beyond the parties' control occur.",
+    category: "Risk Allocation",
+    severity: "high",
+  },
+  {
+    key: "limitation_of_liability",
+    name: "Limitation of Liability",
+    color: "#0EA5E9", // Sky blue
+    description: "Caps or excludes the damages a party can recover.",
+    category: "Risk Allocation",
+    severity: "high",
+  },
+  {
+    key: "assignment",
+    name: "Assignment",
+    color: "#F97316", // Orange
+    description: "Controls whether rights or obligations can be transferred to a third party.",
+    category: "Contract Administration",
+    severity: "medium",
+  },
+  {
+    key: "severability",
+    name: "Severability",
+    color: "#EC4899", // Pink
+    description: "Keeps the rest of the agreement in force if one provision is invalid.",
+    category: "Boilerplate",
+    severity: "low",
+  },
+  {
+    key: "no_waiver",
+    name: "No Waiver",
+    color: "#14B8A6", // Teal
+    description: "Prevents a failure to enforce a right from waiving that right.",
+    category: "Boilerplate",
+    severity: "low",
+  },
+  {
+    key: "confidentiality",
+    name: "Confidentiality",
+    color: "#10B981", // Emerald
+    description: "Restricts the use and disclosure of confidential information.",
+    category: "Information Protection",
+    severity: "high",
+  },
+  {
+    key: "governing_law",
+    name: "Governing Law",
+    color: "#64748B", // Slate
+    description: "Chooses the law and forum that govern disputes under the agreement.",
+    category: "Dispute Resolution",
+    severity: "medium",
+  },
+]
+
+// Free category for reviewer annotations that do not correspond to a clause type
+export const REVIEW_COMMENT_CLAUSE: ClauseType = {
+  key: "review_comments",
+  name: "Review Comment",
+  color: "#EF4444", // Red
+  description: "A passage flagged by a reviewer for discussion.",
+  category: "Reviewer",
+  severity: "low",
+}
+
+let registry: ClauseType[] = DEFAULT_CLAUSE_TYPES
+
+export function getClauseTypes(): ClauseType[] {
+  return registry
+}
+
+export function setClauseTypes(clauseTypes: ClauseType[]) {
+  registry = clauseTypes.length > 0 ? clauseTypes : DEFAULT_CLAUSE_TYPES
+}
+
+// Accepts either the backend (snake_case) or frontend (kebab-case) spelling
+export function findClauseType(clauseType: string): ClauseType | undefined {
+  const key = clauseType.replace(/-/g, "_")
+  return [...registry, REVIEW_COMMENT_CLAUSE].find((entry) => entry.key === key)
+}
+
+// Like findClauseType, but derives display info for types missing from the taxonomy
+export function describeClauseType(clauseType: string): ClauseType {
+  return (
+    findClauseType(clauseType) || {
+      key: clauseType.replace(/-/g, "_"),
+      name: clauseType.replace(/[_-]/g, " ").replace(/\b\w/g, (l) => l.toUpperCase()),
+      color: DEFAULT_CLAUSE_COLOR,
+      description: "",
+      category: "Other",
+      severity: "low",
+    }
+  )
+}
+
+export function toClauseConfig(clauseTypes: ClauseType[]): ClauseConfig {
+  return Object.fromEntries(
+    clauseTypes.map(({ key, ...info }) => [key.replace(/_/g, "-"), info]),
+  )
+}
+
@@ -0,0 +1,279 @@
+// Word (.docx) export of an analyzed document with clause findings as native comments
+
+import {
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  Document as DocxDocument,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  Tab,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx"
+import { getAnnotationId, getClauseDisplayName, getEffectiveClauseType, getEffectivePosition, type DocumentAnnotation, type Note } from "@/lib/api"
+
+interface ExportOptions {
+  name: string
+  content: string
+  contentType?: string
+  annotations: DocumentAnnotation[]
+  notes: Note[]
+}
+
+// A run of text in the exported document. `start` is the offset of the text in the
+// backend's position space, or null when the text cannot be mapped (e.g. list bullets)
+interface TextPiece {
+  text: string
+  start: number | null
+  bold?: boolean
+  italics?: boolean
+  underline?: boolean
+  tab?: boolean
+  lineBreak?: boolean
+}
+
+interface TextBlock {
+  heading?: (typeof HeadingLevel)[keyof typeof HeadingLevel]
+  pieces: TextPiece[]
+}
+
+// A comment thread anchored to a character range; `ids` holds the root comment
+// followed by its replies, which Word expects to share the same anchor
+interface CommentAnchor {
+  ids: number[]
+  start: number
+  end: number
+}
+
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "LI", "TR", "TABLE", "UL", "OL", "BLOCKQUOTE", "SECTION", "ARTICLE",
+  "H1", "H2", "H3", "H4", "H5", "H6",
+])
+
+const HEADINGS: Record<string, TextBlock["heading"]> = {
+  H1: HeadingLevel.HEADING_1,
+  H2: HeadingLevel.HEADING_2,
+  H3: HeadingLevel.HEADING_3,
+  H4: HeadingLevel.HEADING_4,
+  H5: HeadingLevel.HEADING_5,
+  H6: HeadingLevel.HEADING_6,
+}
+
+const AI_AUTHOR = { author: "Legal Foundry AI", initials: "AI" }
+const REVIEWER_AUTHOR = { author: "Reviewer", initials: "RV" }
+
+// Walk the converted HTML and split it into paragraphs of text pieces, mapping each
+// piece back to the backend offsets carried by span[data-start] elements
+function extractHtmlBlocks(html: string): TextBlock[] {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  const blocks: TextBlock[] = []
+  let current: TextBlock = { pieces: [] }
+
+  const flush = () => {
+    if (current.pieces.some((piece) => piece.text.trim() || piece.tab || piece.lineBreak)) {
+      blocks.push(current)
+    }
+    current = { pieces: [] }
+  }
+
+  const walk = (
+    node: Node,
+    format: Pick<TextPiece, "bold" | "italics" | "underline">,
+    offset: { start: number; consumed: number } | null,
+  ) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent || ""
+      if (offset) {
+        current.pieces.push({ text, start: offset.start + offset.consumed, ...format })
+        offset.consumed += text.length
+      } else if (text.trim()) {
+        current.pieces.push({ text: text.replace(/\s+/g, " "), start: null, ...format })
+      }
+      return
+    }
+
+    if (!(node instanceof Element)) return
+
+    const tag = node.tagName
+    if (tag === "SCRIPT" || tag === "STYLE" || tag === "IMG") return
+    if (tag === "BR") {
+      current.pieces.push({ text: "", start: null, lineBreak: true })
+      return
+    }
+    if ((tag === "TD" || tag === "TH") && current.pieces.length > 0) {
+      current.pieces.push({ text: "", start: null, tab: true })
+    }
+
+    const isBlock = BLOCK_TAGS.has(tag)
+    if (isBlock) {
+      flush()
+      current.heading = HEADINGS[tag]
+    }
+
+    const dataStart = tag === "SPAN" ? node.getAttribute("data-start") : null
+    const childOffset = dataStart !== null ? { start: parseInt(dataStart), consumed: 0 } : offset
+    const childFormat = {
+      bold: format.bold || tag === "B" || tag === "STRONG",
+      italics: format.italics || tag === "I" || tag === "EM",
+      underline: format.underline || tag === "U",
+    }
+
+    node.childNodes.forEach((child) => walk(child, childFormat, childOffset))
+
+    if (isBlock) flush()
+  }
+
+  walk(doc.body, {}, null)
+  flush()
+  return blocks
+}
+
+// Plain-text content maps one-to-one onto backend offsets
+function extractTextBlocks(text: string): TextBlock[] {
+  const blocks: TextBlock[] = []
+  let cursor = 0
+  for (const line of text.split("\n")) {
+    if (line.trim()) {
+      blocks.push({ pieces: [{ text: line, start: cursor }] })
+    }
+    cursor += line.length + 1
+  }
+  return blocks
+}
+
+// Interleave text runs with comment range markers so every anchor wraps the text
+// between its start and end offsets, even when it spans several paragraphs
+function buildParagraphs(blocks: TextBlock[], anchors: CommentAnchor[]): Paragraph[] {
+  const opened = new Set<CommentAnchor>()
+  const closed = new Set<CommentAnchor>()
+
+  const openAt = (position: number, children: ParagraphChild[]) => {
+    for (const anchor of anchors) {
+      if (!opened.has(anchor) && anchor.start <= position && anchor.end > position) {
+        opened.add(anchor)
+        anchor.ids.forEach((id) => children.push(new CommentRangeStart(id)))
+      }
+    }
+  }
+
+  const closeAt = (position: number, children: ParagraphChild[]) => {
+    for (const anchor of opened) {
+      if (!closed.has(anchor) && anchor.end <= position) {
+        closed.add(anchor)
+        anchor.ids.forEach((id) => {
+          children.push(new CommentRangeEnd(id))
+          children.push(new TextRun({ children: [new CommentReference(id)] }))
+        })
+      }
+    }
+  }
+
+  return blocks.map((block, blockIndex) => {
+    const children: ParagraphChild[] = []
+
+    for (const piece of block.pieces) {
+      const format = { bold: piece.bold, italics: piece.italics, underline: piece.underline ? {} : undefined }
+
+      if (piece.tab) {
+        children.push(new TextRun({ children: [new Tab()] }))
+        continue
+      }
+      if (piece.lineBreak) {
+        children.push(new TextRun({ break: 1 }))
+        continue
+      }
+      if (piece.start === null) {
+        children.push(new TextRun({ text: piece.text, ...format }))
+        continue
+      }
+
+      const pieceStart = piece.start
+      const pieceEnd = pieceStart + piece.text.length
+      const cuts = new Set([pieceStart, pieceEnd])
+      for (const anchor of anchors) {
+        if (anchor.start > pieceStart && anchor.start < pieceEnd) cuts.add(anchor.start)
+        if (anchor.end > pieceStart && anchor.end < pieceEnd) cuts.add(anchor.end)
+      }
+      const sortedCuts = [...cuts].sort((a, b) => a - b)
+
+      for (let i = 0; i < sortedCuts.length - 1; i++) {
+        const from = sortedCuts[i]
+        const to = sortedCuts[i + 1]
+        openAt(from, children)
+        children.push(new TextRun({ text: piece.text.slice(from - pieceStart, to - pieceStart), ...format }))
+        closeAt(to, children)
+      }
+    }
+
+    // Anchors whose offsets never matched the content are attached to the end of the
+    // document so their comments are not dropped by Word
+    if (blockIndex === blocks.length - 1) {
+      for (const anchor of anchors) {
+        if (!opened.has(anchor)) {
+          opened.add(anchor)
+          anchor.ids.forEach((id) => children.push(new CommentRangeStart(id)))
+        }
+      }
+      closeAt(Infinity, children)
+    }
+
+    return new Paragraph({ heading: block.heading, children })
+  })
+}
+
+export async function createAnnotatedDocx({ name, content, contentType, annotations, notes }: ExportOptions): Promise<Blob> {
+  const extracted = contentType === "html" ? extractHtmlBlocks(content) : extractTextBlocks(content)
+  // Comments need a paragraph to be anchored in, so a document without text still gets an empty one
+  const blocks = extracted.length > 0 ? extracted : [{ pieces: [] }]
+
+  const comments: ICommentOptions[] = []
+  const anchors: CommentAnchor[] = []
+  let nextId = 0
+
+  for (const annotation of annotations) {
+    const position = getEffectivePosition(annotation)
+    if (!position) continue
+
+    const rootId = nextId++
+    const anchor: CommentAnchor = { ids: [rootId], start: position.start, end: position.end }
+
+    comments.push({
+      id: rootId,
+      ...(annotation.user ? REVIEWER_AUTHOR : AI_AUTHOR),
+      children: [
+        new Paragraph({ children: [new TextRun({ text: getClauseDisplayName(getEffectiveClauseType(annotation)), bold: true })] }),
+        ...(annotation.user
+          ? []
+          : [new Paragraph({ children: [new TextRun({ text: `Confidence: ${Math.round(annotation.confidence)}%`, italics: true })] })]),
+        new Paragraph(annotation.reason),
+      ],
+    })
+
+    const annotationId = getAnnotationId(annotation)
+    for (const note of notes.filter((note) => note.annotation_id === annotationId)) {
+      const replyId = nextId++
+      comments.push({
+        id: replyId,
+        parentId: rootId,
+        ...REVIEWER_AUTHOR,
+        date: new Date(note.updated_at),
+        children: [new Paragraph(note.text)],
+      })
+      anchor.ids.push(replyId)
+    }
+
+    anchors.push(anchor)
+  }
+
+  const docx = new DocxDocument({
+    title: name,
+    creator: AI_AUTHOR.author,
+    comments: { children: comments },
+    sections: [{ children: buildParagraphs(blocks, anchors) }],
+  })
+
+  return Packer.toBlob(docx)
+}
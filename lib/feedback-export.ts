@@ -0,0 +1,92 @@
+// Reviewer feedback export: one JSONL record per reviewed finding, for measuring and retraining the clause detector
+
+import {
+  convertClauseTypeToBackendFormat,
+  getAnnotationId,
+  getEffectivePosition,
+  type ClausePosition,
+  type DocumentAnnotation,
+  type UserAnnotation,
+} from "@/lib/api"
+import { REVIEW_COMMENT_CLAUSE } from "@/lib/clause-taxonomy"
+
+export interface FeedbackRecord {
+  document_id: string
+  annotation_id: string
+  clause_type: string // Type predicted by the AI, or chosen by the reviewer for added annotations
+  original: {
+    selected_text: string
+    position: ClausePosition | null
+    confidence: number
+  } | null // null for clauses the AI missed and a reviewer added
+  decision: "accepted" | "rejected" | "relabeled" | "corrected" | "added"
+  final_label: string | null // null when the finding was rejected as a false positive
+  final_span: {
+    selected_text: string
+    position: ClausePosition | null
+  } | null
+  reviewed_at: string | null
+}
+
+function toFeedbackRecord(documentId: string, annotation: DocumentAnnotation | UserAnnotation): FeedbackRecord | null {
+  const annotationId = getAnnotationId(annotation)
+
+  // Reviewer-added annotations are findings the AI missed, except free-form review comments,
+  // which are not a clause type and must not become training labels
+  if (annotation.user) {
+    if (convertClauseTypeToBackendFormat(annotation.type) === REVIEW_COMMENT_CLAUSE.key) return null
+    return {
+      document_id: documentId,
+      annotation_id: annotationId,
+      clause_type: annotation.type,
+      original: null,
+      decision: "added",
+      final_label: annotation.type,
+      final_span: { selected_text: annotation.selected_text, position: annotation.position || null },
+      reviewed_at: "updated_at" in annotation ? annotation.updated_at : null,
+    }
+  }
+
+  const { review, correction } = annotation
+  if (!review && !correction) return null
+
+  const decision = review?.decision || "corrected"
+  const finalLabel =
+    decision === "rejected" ? null : decision === "relabeled" ? review?.relabeled_type || annotation.type : annotation.type
+
+  return {
+    document_id: documentId,
+    annotation_id: annotationId,
+    clause_type: annotation.type,
+    original: {
+      selected_text: annotation.selected_text,
+      position: annotation.position || null,
+      confidence: annotation.confidence,
+    },
+    decision,
+    final_label: finalLabel,
+    final_span:
+      decision === "rejected"
+        ? null
+        : {
+            selected_text: correction?.selected_text ?? annotation.selected_text,
+            position: getEffectivePosition(annotation) || null,
+          },
+    reviewed_at: [review?.updated_at, correction?.updated_at].filter(Boolean).sort().pop() || null,
+  }
+}
+
+// Only findings a reviewer has acted on are exported; untouched AI findings carry no signal
+export function createFeedbackRecords(
+  documentId: string,
+  annotations: Array<DocumentAnnotation | UserAnnotation>,
+): FeedbackRecord[] {
+  return annotations
+    .map((annotation) => toFeedbackRecord(documentId, annotation))
+    .filter((record): record is FeedbackRecord => record !== null)
+}
+
+export function createFeedbackJsonl(documentId: string, annotations: Array<DocumentAnnotation | UserAnnotation>): Blob {
+  const lines = createFeedbackRecords(documentId, annotations).map((record) => JSON.stringify(record))
+  return new Blob([lines.join("\n") + (lines.length > 0 ? "\n" : "")], { type: "application/x-ndjson" })
+}
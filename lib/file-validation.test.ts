@@ -0,0 +1,18 @@
+// @vitest-environment node
+// jsdom's Blob has no arrayBuffer(); Node's File matches the browser one
+
+import { createHash } from "crypto"
+import { describe, expect, it } from "vitest"
+import { computeFileHash } from "@/lib/file-validation"
+
+describe("computeFileHash", () => {
+  it("hashes files across chunk boundaries like a one-shot SHA-256", async () => {
+    const bytes = new Uint8Array(9 * 1024 * 1024 + 123).map((_, index) => (index * 31) % 251)
+    const file = new File([bytes], "contract.pdf")
+    expect(await computeFileHash(file)).toBe(createHash("sha256").update(bytes).digest("hex"))
+  })
+
+  it("hashes empty files", async () => {
+    expect(await computeFileHash(new File([], "empty.txt"))).toBe(createHash("sha256").digest("hex"))
+  })
+})
@@ -0,0 +1,96 @@
+// Client-side checks run on files before they are queued for upload, so the user is told
+// why a file was turned away instead of it silently disappearing from the selection
+
+import { sha256 } from '@noble/hashes/sha2';
+import { bytesToHex } from '@noble/hashes/utils';
+
+export interface FileValidationOptions {
+  acceptedFileTypes: string[]; // Extensions including the dot, e.g. ".pdf"
+  maxFileSize: number; // Bytes
+  maxFiles?: number; // Per selection, including files already selected
+  existingNames?: string[]; // Files already selected, checked for duplicate names
+}
+
+export interface RejectedFile {
+  file: File;
+  reason: string;
+}
+
+// Leading bytes of each supported format. DOCX is a ZIP container, so only the ZIP header is checked
+const FILE_SIGNATURES: Record<string, { bytes: number[]; label: string }> = {
+  '.pdf': { bytes: [0x25, 0x50, 0x44, 0x46, 0x2d], label: 'PDF' }, // %PDF-
+  '.docx': { bytes: [0x50, 0x4b, 0x03, 0x04], label: 'Word (.docx)' }, // PK\x03\x04
+};
+
+export function getFileExtension(fileName: string): string {
+  const dot = fileName.lastIndexOf('.');
+  return dot === -1 ? '' : fileName.slice(dot).toLowerCase();
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+async function matchesSignature(file: File, extension: string): Promise<boolean> {
+  const signature = FILE_SIGNATURES[extension];
+  if (!signature) return true;
+  const header = new Uint8Array(await file.slice(0, signature.bytes.length).arrayBuffer());
+  return signature.bytes.every((byte, index) => header[index] === byte);
+}
+
+export async function validateFiles(
+  files: File[],
+  { acceptedFileTypes, maxFileSize, maxFiles = Infinity, existingNames = [] }: FileValidationOptions
+): Promise<{ accepted: File[]; rejected: RejectedFile[] }> {
+  const accepted: File[] = [];
+  const rejected: RejectedFile[] = [];
+  const seenNames = new Set(existingNames.map((name) => name.toLowerCase()));
+
+  for (const file of files) {
+    const extension = getFileExtension(file.name);
+    let reason: string | null = null;
+
+    if (!acceptedFileTypes.includes(extension)) {
+      reason = extension
+        ? `${extension} files are not supported. Use ${acceptedFileTypes.join(', ')}`
+        : `File has no extension. Use ${acceptedFileTypes.join(', ')}`;
+    } else if (file.size === 0) {
+      reason = 'File is empty';
+    } else if (file.size > maxFileSize) {
+      reason = `File is ${formatFileSize(file.size)}, over the ${formatFileSize(maxFileSize)} limit`;
+    } else if (seenNames.has(file.name.toLowerCase())) {
+      reason = 'A file with this name is already selected';
+    } else if (!(await matchesSignature(file, extension))) {
+      reason = `File content is not a valid ${FILE_SIGNATURES[extension].label} document`;
+    } else if (seenNames.size >= maxFiles) {
+      reason = `Only ${maxFiles} files can be uploaded at once`;
+    }
+
+    if (reason) {
+      rejected.push({ file, reason });
+    } else {
+      accepted.push(file);
+      seenNames.add(file.name.toLowerCase());
+    }
+  }
+
+  return { accepted, rejected };
+}
+
+// Bytes read into memory at a time while hashing
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024;
+
+// Hex SHA-256 of the file contents, used to spot re-uploads of a document. Web Crypto can only
+// digest a whole buffer, which for large uploads means holding the entire file in memory, so the
+// file is fed through an incremental hasher a chunk at a time instead. That is slower than the
+// native digest, but the full-content hash still matches the one the backend records, which a
+// sampled hash would not
+export async function computeFileHash(file: File): Promise<string> {
+  const hash = sha256.create();
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    hash.update(new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer()));
+  }
+  return bytesToHex(hash.digest());
+}
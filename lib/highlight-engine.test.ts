@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest"
+import {
+  applyHighlights,
+  collectOffsetTextNodes,
+  getHighlightSegments,
+  type HighlightRange,
+} from "@/lib/highlight-engine"
+
+const range = (id: string, start: number, end: number): HighlightRange<null> => ({ id, start, end, data: null })
+
+function render(html: string) {
+  const root = document.createElement("div")
+  root.innerHTML = html
+  return root
+}
+
+// Marks each highlight with its range id and depth so the output reads as nesting
+function highlight(html: string, ranges: HighlightRange<null>[]) {
+  const root = render(html)
+  applyHighlights(root, ranges, (element, { range, depth }) => {
+    element.className = `hl-${range.id}`
+    element.dataset.depth = String(depth)
+  }, "mark")
+  return root
+}
+
+describe("getHighlightSegments", () => {
+  it("returns the whole text as one plain segment when nothing overlaps", () => {
+    expect(getHighlightSegments("hello", 10, [range("a", 0, 5), range("b", 20, 30)])).toEqual([
+      { text: "hello", start: 10, end: 15, ranges: [] },
+    ])
+  })
+
+  it("cuts a range that only partly covers the text", () => {
+    const segments = getHighlightSegments("hello world", 0, [range("a", 6, 20)])
+    expect(segments.map(({ text, ranges }) => [text, ranges.map((r) => r.id)])).toEqual([
+      ["hello ", []],
+      ["world", ["a"]],
+    ])
+  })
+
+  it("orders nested ranges outermost first", () => {
+    const segments = getHighlightSegments("abcdefgh", 0, [range("inner", 2, 4), range("outer", 0, 8)])
+    expect(segments.map(({ text, ranges }) => [text, ranges.map((r) => r.id)])).toEqual([
+      ["ab", ["outer"]],
+      ["cd", ["outer", "inner"]],
+      ["efgh", ["outer"]],
+    ])
+  })
+
+  it("splits stacked overlaps at every boundary", () => {
+    const segments = getHighlightSegments("abcdefgh", 100, [range("b", 103, 108), range("a", 100, 105)])
+    expect(segments.map(({ text, start, ranges }) => [text, start, ranges.map((r) => r.id)])).toEqual([
+      ["abc", 100, ["a"]],
+      ["de", 103, ["a", "b"]],
+      ["fgh", 105, ["b"]],
+    ])
+  })
+
+  it("ignores empty ranges", () => {
+    expect(getHighlightSegments("abc", 0, [range("empty", 1, 1)])[0].ranges).toEqual([])
+  })
+})
+
+describe("collectOffsetTextNodes", () => {
+  it("assigns offsets from the owning span, continuing across inline children", () => {
+    const root = render('<span data-start="10" data-end="21">hello <b>big</b> world</span>')
+    expect(collectOffsetTextNodes(root).map(({ node, start }) => [node.data, start])).toEqual([
+      ["hello ", 10],
+      ["big", 16],
+      [" world", 19],
+    ])
+  })
+
+  it("restarts at nested offset spans and skips loose text outside them", () => {
+    const root = render(
+      '<div class="page" data-start="0" data-end="20">loose<span data-start="0" data-end="3">one</span>' +
+        '<span data-start="4" data-end="7">two</span></div>',
+    )
+    expect(collectOffsetTextNodes(root).map(({ node, start }) => [node.data, start])).toEqual([
+      ["one", 0],
+      ["two", 4],
+    ])
+  })
+})
+
+describe("applyHighlights", () => {
+  it("wraps only the covered part of a span", () => {
+    const root = highlight('<span data-start="0" data-end="11">hello world</span>', [range("a", 6, 11)])
+    expect(root.innerHTML).toBe('<span data-start="0" data-end="11">hello <mark class="hl-a" data-depth="0">world</mark></span>')
+  })
+
+  it("highlights a range spanning several offset spans", () => {
+    const root = highlight(
+      '<p><span data-start="0" data-end="5">first</span></p><p><span data-start="6" data-end="12">second</span></p>',
+      [range("a", 2, 9)],
+    )
+    expect(Array.from(root.querySelectorAll("mark.hl-a"), (mark) => mark.textContent)).toEqual(["rst", "sec"])
+  })
+
+  it("nests overlapping highlights, outermost first", () => {
+    const root = highlight('<span data-start="0" data-end="8">abcdefgh</span>', [range("inner", 2, 4), range("outer", 0, 8)])
+    expect(root.innerHTML).toBe(
+      '<span data-start="0" data-end="8">' +
+        '<mark class="hl-outer" data-depth="0">ab</mark>' +
+        '<mark class="hl-outer" data-depth="0"><mark class="hl-inner" data-depth="1">cd</mark></mark>' +
+        '<mark class="hl-outer" data-depth="0">efgh</mark>' +
+        "</span>",
+    )
+  })
+
+  it("stacks partially overlapping highlights", () => {
+    const root = highlight('<span data-start="0" data-end="8">abcdefgh</span>', [range("a", 0, 5), range("b", 3, 8)])
+    expect(root.innerHTML).toBe(
+      '<span data-start="0" data-end="8">' +
+        '<mark class="hl-a" data-depth="0">abc</mark>' +
+        '<mark class="hl-a" data-depth="0"><mark class="hl-b" data-depth="1">de</mark></mark>' +
+        '<mark class="hl-b" data-depth="0">fgh</mark>' +
+        "</span>",
+    )
+  })
+
+  it("reports range start and end on the segments that hold them", () => {
+    const root = render('<span data-start="0" data-end="5">ab</span><span data-start="2" data-end="5">cde</span>')
+    const edges: Array<[string, boolean, boolean]> = []
+    applyHighlights(root, [range("a", 1, 4)], (element, { isRangeStart, isRangeEnd }) => {
+      edges.push([element.textContent || "", isRangeStart, isRangeEnd])
+    })
+    expect(edges).toEqual([
+      ["b", true, false],
+      ["cd", false, true],
+    ])
+  })
+
+  it("does not highlight text added by decorate", () => {
+    const root = render('<span data-start="0" data-end="3">abc</span>')
+    applyHighlights(root, [range("a", 0, 3)], (element) => {
+      element.appendChild(document.createTextNode(" tooltip"))
+    })
+    expect(root.querySelectorAll("span span")).toHaveLength(1)
+    expect(root.textContent).toBe("abc tooltip")
+  })
+})
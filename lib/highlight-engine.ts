@@ -0,0 +1,132 @@
+// Highlight engine: splits offset-annotated content into segments and wraps every
+// segment covered by one or more ranges in nested highlight elements.
+//
+// Offsets follow the backend's position space: each span carrying data-start owns the
+// text nodes below it (up to the next nested offset span), and the first character of
+// that text sits at the data-start offset. Other elements with offsets, such as .page
+// divs, only describe ranges and do not own their loose text.
+
+export interface HighlightRange<T = unknown> {
+  id: string
+  start: number
+  end: number
+  data: T
+}
+
+// A run of text and the ranges covering all of it, outermost first
+export interface HighlightSegment<T = unknown> {
+  text: string
+  start: number
+  end: number
+  ranges: HighlightRange<T>[]
+}
+
+export interface HighlightContext<T = unknown> {
+  range: HighlightRange<T>
+  // Nesting level of this highlight within the segment, 0 being the outermost
+  depth: number
+  // Whether the segment holds the first / last character of the range
+  isRangeStart: boolean
+  isRangeEnd: boolean
+}
+
+// Outer highlights first: earlier starts, then longer ranges, then input order
+function compareRanges(a: HighlightRange, b: HighlightRange): number {
+  return a.start - b.start || b.end - a.end
+}
+
+// Split `text`, which starts at offset `textStart`, at every range boundary inside it
+export function getHighlightSegments<T>(
+  text: string,
+  textStart: number,
+  ranges: HighlightRange<T>[],
+): HighlightSegment<T>[] {
+  const textEnd = textStart + text.length
+  const overlapping = ranges
+    .filter((range) => range.end > range.start && range.start < textEnd && range.end > textStart)
+    .sort(compareRanges)
+
+  const cuts = new Set([textStart, textEnd])
+  for (const range of overlapping) {
+    if (range.start > textStart) cuts.add(range.start)
+    if (range.end < textEnd) cuts.add(range.end)
+  }
+  const sortedCuts = [...cuts].sort((a, b) => a - b)
+
+  const segments: HighlightSegment<T>[] = []
+  for (let i = 0; i < sortedCuts.length - 1; i++) {
+    const start = sortedCuts[i]
+    const end = sortedCuts[i + 1]
+    segments.push({
+      text: text.slice(start - textStart, end - textStart),
+      start,
+      end,
+      ranges: overlapping.filter((range) => range.start <= start && range.end >= end),
+    })
+  }
+  return segments
+}
+
+// Text nodes of the tree with the backend offset of their first character. Text outside
+// any offset span is left alone
+export function collectOffsetTextNodes(root: ParentNode): Array<{ node: Text; start: number }> {
+  const nodes: Array<{ node: Text; start: number }> = []
+
+  const walk = (node: Node, offset: { start: number; consumed: number } | null) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node as Text
+      if (offset) {
+        nodes.push({ node: text, start: offset.start + offset.consumed })
+        offset.consumed += text.data.length
+      }
+      return
+    }
+
+    const dataStart = node instanceof Element && node.tagName === "SPAN" ? node.getAttribute("data-start") : null
+    const childOffset = dataStart !== null ? { start: parseInt(dataStart), consumed: 0 } : offset
+    node.childNodes.forEach((child) => walk(child, childOffset))
+  }
+
+  walk(root as Node, null)
+  return nodes
+}
+
+// Wrap every highlighted segment below `root` in one element per covering range.
+// `decorate` receives each created element after the segment's content is inside it,
+// so it can set classes and styles or append extra children such as tooltips
+export function applyHighlights<T>(
+  root: ParentNode,
+  ranges: HighlightRange<T>[],
+  decorate: (element: HTMLElement, context: HighlightContext<T>) => void,
+  tagName: string = "span",
+) {
+  const doc = (root as Node).ownerDocument || (root as Document)
+
+  // Collect first so text added by `decorate` (e.g. tooltips) is never highlighted itself
+  for (const { node, start } of collectOffsetTextNodes(root)) {
+    const segments = getHighlightSegments(node.data, start, ranges)
+    if (segments.every((segment) => segment.ranges.length === 0)) continue
+
+    const fragment = doc.createDocumentFragment()
+    for (const segment of segments) {
+      let content: Node = doc.createTextNode(segment.text)
+
+      // Build from the innermost highlight outwards
+      for (let depth = segment.ranges.length - 1; depth >= 0; depth--) {
+        const range = segment.ranges[depth]
+        const element = doc.createElement(tagName)
+        element.appendChild(content)
+        decorate(element, {
+          range,
+          depth,
+          isRangeStart: segment.start === range.start,
+          isRangeEnd: segment.end === range.end,
+        })
+        content = element
+      }
+
+      fragment.appendChild(content)
+    }
+    node.replaceWith(fragment)
+  }
+}
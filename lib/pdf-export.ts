@@ -0,0 +1,246 @@
+// Annotated PDF export: rendered pages with clause highlights, margin call-outs and a clause appendix
+
+import {
+  getAnnotationId,
+  getClauseColor,
+  getClauseDisplayName,
+  getEffectiveClauseType,
+  getEffectivePosition,
+  type DocumentAnnotation,
+  type Note,
+} from "@/lib/api"
+import { applyHighlights, type HighlightRange } from "@/lib/highlight-engine"
+import { sanitizeHtml } from "@/lib/sanitize-html"
+import { renderTextContent } from "@/lib/text-content"
+
+interface ExportOptions {
+  name: string
+  content: string
+  contentType?: string
+  annotations: DocumentAnnotation[]
+  notes: Note[]
+}
+
+// Layout in PDF points on an A4 page
+const PAGE_MARGIN = 28
+const CALLOUT_WIDTH = 140
+const CALLOUT_GAP = 12
+// Width the HTML pages are laid out at before being rasterized (8.5in at 96dpi)
+const RENDER_WIDTH_PX = 816
+// Plain-text content has no .page divs, so its blocks are grouped into pages of about this many lines
+const TEXT_LINES_PER_PAGE = 60
+// Room kept at the foot of the call-out column for the note on call-outs that did not fit
+const CALLOUT_OVERFLOW_HEIGHT = 12
+
+function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.replace("#", ""), 16)
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255]
+}
+
+function countLines(block: Element): number {
+  return (block.textContent || "").split("\n").length + block.querySelectorAll("br").length
+}
+
+// Build the list of page elements to render. Plain text and markdown go through the viewer's
+// renderer, so their offset spans match the ones the annotations were made against
+function buildPages(content: string, contentType?: string): HTMLElement[] {
+  if (contentType === "html") {
+    // Pages are mounted in the live document to be rasterized, so they must be sanitized first
+    const parsed = new DOMParser().parseFromString(sanitizeHtml(content), "text/html")
+    const pages = Array.from(parsed.querySelectorAll<HTMLElement>(".page"))
+    return pages.length > 0 ? pages : [parsed.body]
+  }
+
+  const parsed = new DOMParser().parseFromString(renderTextContent(content, contentType), "text/html")
+  const textDocument = parsed.body.firstElementChild as HTMLElement
+  const pages: HTMLElement[] = []
+  let page: HTMLElement | null = null
+  let lineCount = 0
+  for (const block of Array.from(textDocument.children)) {
+    if (!page || lineCount >= TEXT_LINES_PER_PAGE) {
+      page = parsed.createElement("div")
+      page.className = `page ${textDocument.className}`
+      pages.push(page)
+      lineCount = 0
+    }
+    page.appendChild(block)
+    lineCount += countLines(block)
+  }
+  return pages.length > 0 ? pages : [textDocument]
+}
+
+// Wrap every annotated range inside the page's offset spans in a colored <mark>.
+// Overlapping findings nest, each adding its own underline
+function highlightPage(page: HTMLElement, annotations: DocumentAnnotation[]) {
+  const ranges: HighlightRange<number>[] = annotations.map((annotation, index) => ({
+    id: getAnnotationId(annotation),
+    start: annotation.position!.start,
+    end: annotation.position!.end,
+    data: index,
+  }))
+
+  applyHighlights(
+    page,
+    ranges,
+    (mark, { range, depth }) => {
+      const color = getClauseColor(getEffectiveClauseType(annotations[range.data]))
+      mark.setAttribute("data-annotation-index", range.data.toString())
+      mark.style.backgroundColor = `${color}40`
+      mark.style.borderBottom = `2px solid ${color}`
+      mark.style.paddingBottom = `${depth * 2}px`
+      mark.style.color = "inherit"
+    },
+    "mark",
+  )
+}
+
+export async function createAnnotatedPdf({ name, content, contentType, annotations, notes }: ExportOptions): Promise<Blob> {
+  // These libraries only work in the browser, so they are loaded on demand
+  const [{ jsPDF }, { default: autoTable }, { default: html2canvas }] = await Promise.all([
+    import("jspdf"),
+    import("jspdf-autotable"),
+    import("html2canvas"),
+  ])
+
+  const pdf = new jsPDF({ unit: "pt", format: "a4" })
+  pdf.setProperties({ title: name })
+  const pageWidth = pdf.internal.pageSize.getWidth()
+  const pageHeight = pdf.internal.pageSize.getHeight()
+  const contentWidth = pageWidth - PAGE_MARGIN * 2 - CALLOUT_WIDTH - CALLOUT_GAP
+  const contentHeight = pageHeight - PAGE_MARGIN * 2
+  const calloutX = PAGE_MARGIN + contentWidth + CALLOUT_GAP
+
+  // Highlights and call-outs follow reviewer span corrections where there are any
+  const positioned = annotations
+    .filter((annotation) => getEffectivePosition(annotation))
+    .map((annotation) => ({ ...annotation, position: getEffectivePosition(annotation) }))
+  const pages = buildPages(content, contentType)
+
+  let isFirstPdfPage = true
+  for (const page of pages) {
+    // Render off-screen so the page gets real layout for html2canvas and mark offsets
+    const container = document.createElement("div")
+    container.style.position = "fixed"
+    container.style.left = "-10000px"
+    container.style.top = "0"
+    container.style.width = `${RENDER_WIDTH_PX}px`
+    container.style.background = "#ffffff"
+    container.style.color = "#000000"
+    container.innerHTML = page.outerHTML
+    const renderedPage = container.firstElementChild as HTMLElement
+    renderedPage.style.display = "block"
+    highlightPage(renderedPage, positioned)
+    document.body.appendChild(container)
+
+    try {
+      const canvas = await html2canvas(container, { scale: 2, backgroundColor: "#ffffff", useCORS: true, logging: false })
+      const containerTop = container.getBoundingClientRect().top
+      // Pages keep the content's full width and run onto as many PDF pages as their height needs
+      const scale = contentWidth / container.offsetWidth
+      const sliceHeight = contentHeight / scale
+      const pixelRatio = canvas.width / container.offsetWidth
+
+      // First mark of each annotation on this page, in reading order
+      const markers = new Map<number, number>()
+      container.querySelectorAll<HTMLElement>("mark[data-annotation-index]").forEach((mark) => {
+        const index = parseInt(mark.getAttribute("data-annotation-index") || "0")
+        if (!markers.has(index)) {
+          markers.set(index, mark.getBoundingClientRect().top - containerTop)
+        }
+      })
+      const sortedMarkers = [...markers.entries()].sort((a, b) => a[1] - b[1])
+
+      // The 1px slack keeps rounding from adding a blank trailing page
+      for (let sliceTop = 0; sliceTop < container.offsetHeight - 1; sliceTop += sliceHeight) {
+        const height = Math.min(sliceHeight, container.offsetHeight - sliceTop)
+        const slice = document.createElement("canvas")
+        slice.width = canvas.width
+        slice.height = Math.ceil(height * pixelRatio)
+        slice.getContext("2d")!.drawImage(canvas, 0, -Math.floor(sliceTop * pixelRatio))
+
+        if (!isFirstPdfPage) pdf.addPage()
+        isFirstPdfPage = false
+        pdf.addImage(slice.toDataURL("image/jpeg", 0.92), "JPEG", PAGE_MARGIN, PAGE_MARGIN, contentWidth, height * scale)
+
+        // Margin call-outs for the marks in this slice, pushed down where they would otherwise overlap.
+        // Those pushed past the foot of the page are left to the appendix, which lists every clause
+        const calloutBottom = pageHeight - PAGE_MARGIN - CALLOUT_OVERFLOW_HEIGHT
+        const sliceMarkers = sortedMarkers.filter(([, top]) => top >= sliceTop && top < sliceTop + sliceHeight)
+        let nextFreeY = PAGE_MARGIN
+        let overflow = 0
+        for (const [order, [index, top]] of sliceMarkers.entries()) {
+          const annotation = positioned[index]
+          const [r, g, b] = hexToRgb(getClauseColor(getEffectiveClauseType(annotation)))
+          const anchorY = PAGE_MARGIN + (top - sliceTop) * scale
+          const y = Math.max(anchorY, nextFreeY)
+          const title = pdf.splitTextToSize(getClauseDisplayName(getEffectiveClauseType(annotation)), CALLOUT_WIDTH - 10) as string[]
+          if (y + 4 + title.length * 9 + 10 > calloutBottom) {
+            overflow = sliceMarkers.length - order
+            break
+          }
+
+          pdf.setDrawColor(r, g, b)
+          pdf.setLineWidth(0.5)
+          pdf.line(PAGE_MARGIN + contentWidth, anchorY, calloutX, y)
+          pdf.setFillColor(r, g, b)
+          pdf.rect(calloutX, y, 4, 4, "F")
+
+          pdf.setFont("helvetica", "bold")
+          pdf.setFontSize(8)
+          pdf.setTextColor(r, g, b)
+          pdf.text(title, calloutX + 8, y + 4)
+
+          pdf.setFont("helvetica", "normal")
+          pdf.setFontSize(7)
+          pdf.setTextColor(100, 116, 139)
+          const detailY = y + 4 + title.length * 9
+          pdf.text(annotation.user ? "Reviewer annotation" : `${Math.round(annotation.confidence)}% confidence`, calloutX + 8, detailY)
+
+          nextFreeY = detailY + 10
+        }
+
+        if (overflow > 0) {
+          pdf.setFont("helvetica", "italic")
+          pdf.setFontSize(7)
+          pdf.setTextColor(100, 116, 139)
+          pdf.text(`${overflow} more ${overflow === 1 ? "clause" : "clauses"} listed in the appendix`, calloutX, calloutBottom + 8)
+        }
+      }
+    } finally {
+      container.remove()
+    }
+  }
+
+  // Appendix listing every clause with its reasoning and notes
+  pdf.addPage()
+  pdf.setFont("helvetica", "bold")
+  pdf.setFontSize(14)
+  pdf.setTextColor(30, 41, 59)
+  pdf.text("Clause Appendix", PAGE_MARGIN, PAGE_MARGIN + 14)
+
+  const sorted = [...annotations].sort((a, b) => (a.position?.start || 0) - (b.position?.start || 0))
+  autoTable(pdf, {
+    startY: PAGE_MARGIN + 28,
+    margin: { left: PAGE_MARGIN, right: PAGE_MARGIN },
+    head: [["Clause", "Confidence", "Reason", "Notes"]],
+    body: sorted.map((annotation) => [
+      getClauseDisplayName(getEffectiveClauseType(annotation)),
+      annotation.user ? "Reviewer" : `${Math.round(annotation.confidence)}%`,
+      annotation.reason,
+      notes
+        .filter((note) => note.annotation_id === getAnnotationId(annotation))
+        .map((note) => note.text)
+        .join("\n\n"),
+    ]),
+    styles: { fontSize: 8, cellPadding: 4, valign: "top" },
+    headStyles: { fillColor: [30, 64, 175] },
+    columnStyles: { 0: { cellWidth: 90, fontStyle: "bold" }, 1: { cellWidth: 60 } },
+    didParseCell: (data) => {
+      if (data.section === "body" && data.column.index === 0) {
+        data.cell.styles.textColor = hexToRgb(getClauseColor(getEffectiveClauseType(sorted[data.row.index])))
+      }
+    },
+  })
+
+  return pdf.output("blob")
+}
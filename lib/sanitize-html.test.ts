@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest"
+import { escapeHtml, sanitizeHtml } from "@/lib/sanitize-html"
+
+function sanitize(html: string) {
+  const root = document.createElement("div")
+  root.innerHTML = sanitizeHtml(html)
+  return root
+}
+
+describe("sanitizeHtml", () => {
+  it("drops scripts and other active elements with their contents", () => {
+    const root = sanitize('<p>Text<script>alert(1)</script><iframe src="https://example.com"></iframe><style>body{}</style></p>')
+    expect(root.innerHTML).toBe("<p>Text</p>")
+  })
+
+  it("removes event handler attributes", () => {
+    const root = sanitize('<div onclick="alert(1)"><img src="/documents/1/images/a.png" onerror="alert(1)"></div>')
+    expect(root.querySelector("div")!.hasAttribute("onclick")).toBe(false)
+    expect(root.querySelector("img")!.hasAttribute("onerror")).toBe(false)
+    expect(root.querySelector("img")!.getAttribute("src")).toBe("/documents/1/images/a.png")
+  })
+
+  it("removes javascript: links, including obfuscated ones", () => {
+    const root = sanitize('<a href="javascript:alert(1)">a</a><a href=" java\tscript:alert(1)">b</a><a href="https://example.com">c</a>')
+    const links = Array.from(root.querySelectorAll("a"))
+    expect(links[0].hasAttribute("href")).toBe(false)
+    expect(links[1].hasAttribute("href")).toBe(false)
+    expect(links[2].getAttribute("href")).toBe("https://example.com")
+    expect(links[2].getAttribute("rel")).toBe("noopener noreferrer")
+  })
+
+  it("drops images from external or protocol-relative sources", () => {
+    const root = sanitize('<img src="https://example.com/a.png"><img src="//example.com/a.png"><img src="data:image/svg+xml;base64,AA==">')
+    expect(root.querySelectorAll("img")).toHaveLength(0)
+  })
+
+  it("strips fixed positioning and stacking from inline styles", () => {
+    const root = sanitize('<div style="position: fixed; inset: 0; z-index: 9999; color: red">Sign in again</div>')
+    const div = root.querySelector("div")!
+    expect(div.style.position).toBe("")
+    expect(div.style.zIndex).toBe("")
+    expect(div.style.color).toBe("red")
+  })
+
+  it("keeps the absolute positioning converted pages lay out with", () => {
+    const root = sanitize('<div class="page"><span style="position: absolute; left: 10px">Text</span></div>')
+    expect(root.querySelector("span")!.style.position).toBe("absolute")
+  })
+
+  it("drops styles that load resources", () => {
+    const root = sanitize('<div style="background: url(https://example.com/track.png)">Text</div>')
+    expect(root.querySelector("div")!.hasAttribute("style")).toBe(false)
+  })
+
+  it("keeps only converter classes and no nested pages", () => {
+    const root = sanitize(
+      '<div class="page"><span class="clause-highlight fixed inset-0 z-50">a</span><div class="page">b</div><table class="docx-table"></table></div>',
+    )
+    expect(root.querySelectorAll(".page")).toHaveLength(1)
+    expect(root.querySelector("span")!.hasAttribute("class")).toBe(false)
+    expect(root.querySelector("table")!.className).toBe("docx-table")
+  })
+
+  it("removes the data attributes the viewer sets on highlights", () => {
+    const root = sanitize('<span data-start="0" data-end="4" data-annotation-id="1" data-clause-type="x">Text</span>')
+    const span = root.querySelector("span")!
+    expect(span.getAttribute("data-start")).toBe("0")
+    expect(span.getAttribute("data-end")).toBe("4")
+    expect(span.hasAttribute("data-annotation-id")).toBe(false)
+    expect(span.hasAttribute("data-clause-type")).toBe(false)
+  })
+
+  it("namespaces ids and the links pointing at them", () => {
+    const root = sanitize('<h2 id="terms">Terms</h2><a href="#terms">See terms</a>')
+    expect(root.querySelector("h2")!.id).toBe("doc-terms")
+    expect(root.querySelector("a")!.getAttribute("href")).toBe("#doc-terms")
+  })
+})
+
+describe("escapeHtml", () => {
+  it("escapes markup characters", () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe("&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;")
+  })
+})
@@ -0,0 +1,157 @@
+// Allow-list sanitizer for the HTML the backend produces from uploaded documents.
+// Uploaded files are untrusted, so their converted markup must not be able to run
+// script, load external resources or navigate to javascript: URLs in the reviewer's session.
+
+// Elements removed together with everything inside them
+const DROPPED_TAGS = new Set([
+  "script", "noscript", "template", "iframe", "frame", "frameset", "object", "embed", "applet",
+  "link", "meta", "base", "form", "input", "button", "textarea", "select", "option",
+  "svg", "math", "audio", "video", "source", "track", "canvas", "portal",
+  // Stylesheets would apply to the whole app page, not just the document
+  "style",
+])
+
+// Elements kept as-is; anything not listed here (and not dropped) is unwrapped to its children
+const ALLOWED_TAGS = new Set([
+  "div", "span", "p", "br", "hr", "h1", "h2", "h3", "h4", "h5", "h6",
+  "ul", "ol", "li", "dl", "dt", "dd",
+  "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption", "colgroup", "col",
+  "b", "strong", "i", "em", "u", "s", "strike", "del", "ins", "sub", "sup", "small", "mark",
+  "blockquote", "pre", "code", "a", "img", "section", "article", "header", "footer",
+  "figure", "figcaption", "font", "center", "label",
+])
+
+const ALLOWED_ATTRIBUTES = new Set([
+  "class", "id", "style", "title", "dir", "lang", "align", "valign", "width", "height",
+  "colspan", "rowspan", "span", "start", "type", "border", "cellpadding", "cellspacing",
+  "color", "face", "size", "href", "src", "alt",
+])
+
+// The document's own stylesheets are dropped, so its class names can only ever match the
+// app's CSS: the viewer's highlight and tooltip classes, or Tailwind utilities such as
+// "fixed inset-0 z-50". Only the converter classes the viewer styles are kept, and "page"
+// only outside another page, since each .page is split out and mounted as one page
+const ALLOWED_CLASSES = new Set(["page", "docx-table"])
+
+// Attributes the viewer and PDF export set on highlights and pages to find them again
+const RESERVED_DATA_ATTRIBUTES = new Set([
+  "data-annotation-id", "data-annotation-index", "data-clause-type", "data-confidence", "data-page-index",
+])
+
+// Document ids share the page with the app, where they would clash with its elements and
+// shadow globals through named access (window.foo). They are namespaced, along with the
+// in-document links pointing at them
+const ID_PREFIX = "doc-"
+
+// Positions a converted page uses for its layout. Absolutely positioned content stays inside
+// its .page, which is positioned; fixed and sticky content could cover the app's own controls
+const CONTAINED_POSITIONS = new Set(["static", "relative", "absolute"])
+
+// Relative paths (the backend serves document images under /documents/:id/images) and
+// inline raster images are the only image sources allowed. A leading slash must not be
+// followed by another slash or a backslash, which browsers read as a protocol-relative URL
+const SAFE_IMAGE_SRC = /^(?:\/(?![\/\\])|\.{1,2}\/|data:image\/(?:png|jpe?g|gif|webp);base64,)/i
+const SAFE_LINK_HREF = /^(?:https?:|mailto:|#|\/(?![\/\\])|\.{1,2}\/)/i
+
+// CSS that can load resources or run script in legacy engines. Any backslash is rejected
+// because CSS escapes (e.g. \75rl for url) would otherwise slip past the other patterns
+const UNSAFE_CSS = /url\s*\(|image-set\s*\(|src\s*\(|@import|expression\s*\(|behavior\s*:|-moz-binding|\\/i
+
+// Strip the control characters and whitespace browsers ignore inside URL schemes
+function normalizeUrl(value: string): string {
+  return value.replace(/[\u0000- \u007f-\u009f]/g, "")
+}
+
+// Stacking is dropped outright: document content never needs to sit above the app
+function sanitizeStyle(element: HTMLElement) {
+  const position = element.style.getPropertyValue("position").trim().toLowerCase()
+  if (position && !CONTAINED_POSITIONS.has(position)) element.style.removeProperty("position")
+  element.style.removeProperty("z-index")
+  if (!element.style.cssText) element.removeAttribute("style")
+}
+
+function sanitizeClasses(element: Element, insidePage: boolean) {
+  const classes = Array.from(element.classList).filter(
+    (name) => ALLOWED_CLASSES.has(name) && !(insidePage && name === "page"),
+  )
+  if (classes.length > 0) {
+    element.className = classes.join(" ")
+  } else {
+    element.removeAttribute("class")
+  }
+}
+
+function sanitizeElement(element: Element, insidePage: boolean) {
+  for (const attribute of Array.from(element.attributes)) {
+    const name = attribute.name.toLowerCase()
+    const value = attribute.value
+
+    if (!ALLOWED_ATTRIBUTES.has(name) && (!name.startsWith("data-") || RESERVED_DATA_ATTRIBUTES.has(name))) {
+      element.removeAttribute(attribute.name)
+    } else if (name === "style" && UNSAFE_CSS.test(value)) {
+      element.removeAttribute(attribute.name)
+    } else if (name === "href" && !SAFE_LINK_HREF.test(normalizeUrl(value))) {
+      element.removeAttribute(attribute.name)
+    } else if (name === "src" && (element.tagName !== "IMG" || !SAFE_IMAGE_SRC.test(normalizeUrl(value)))) {
+      element.removeAttribute(attribute.name)
+    } else if (name === "id") {
+      element.setAttribute("id", `${ID_PREFIX}${value}`)
+    } else if (name === "href" && value.startsWith("#") && value.length > 1) {
+      element.setAttribute("href", `#${ID_PREFIX}${value.slice(1)}`)
+    }
+  }
+
+  if (element.hasAttribute("class")) sanitizeClasses(element, insidePage)
+  if (element instanceof HTMLElement && element.hasAttribute("style")) sanitizeStyle(element)
+
+  if (element.tagName === "A" && element.hasAttribute("href")) {
+    element.setAttribute("rel", "noopener noreferrer")
+    element.setAttribute("target", "_blank")
+  }
+}
+
+function sanitizeChildren(parent: Node, insidePage: boolean) {
+  for (const child of Array.from(parent.childNodes)) {
+    if (child.nodeType === Node.COMMENT_NODE || child.nodeType === Node.PROCESSING_INSTRUCTION_NODE) {
+      child.remove()
+      continue
+    }
+    if (!(child instanceof Element)) continue
+
+    const tag = child.tagName.toLowerCase()
+    if (DROPPED_TAGS.has(tag)) {
+      child.remove()
+      continue
+    }
+
+    if (tag === "img" && !SAFE_IMAGE_SRC.test(normalizeUrl(child.getAttribute("src") || ""))) {
+      child.remove()
+      continue
+    }
+
+    const isPage = ALLOWED_TAGS.has(tag) && !insidePage && child.classList.contains("page")
+    sanitizeChildren(child, insidePage || isPage)
+
+    if (ALLOWED_TAGS.has(tag)) {
+      sanitizeElement(child, insidePage)
+    } else {
+      child.replaceWith(...Array.from(child.childNodes))
+    }
+  }
+}
+
+export function sanitizeHtml(html: string): string {
+  // DOMParser documents are inert: nothing in them runs or loads while they are cleaned
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  sanitizeChildren(doc.body, false)
+  return doc.body.innerHTML
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;")
+}
@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest"
+import { renderTextContent } from "@/lib/text-content"
+
+// Every offset span must hold exactly the raw text its offsets point at once parsed by the browser
+function expectSpansMatchContent(content: string, contentType?: string) {
+  const root = document.createElement("div")
+  root.innerHTML = renderTextContent(content, contentType)
+  const spans = Array.from(root.querySelectorAll<HTMLElement>("span[data-start]"))
+  expect(spans.length).toBeGreaterThan(0)
+  for (const span of spans) {
+    const start = Number(span.dataset.start)
+    const end = Number(span.dataset.end)
+    expect(span.textContent).toBe(content.slice(start, end))
+  }
+}
+
+describe("renderTextContent", () => {
+  it("keeps plain text offsets aligned for LF files", () => {
+    expectSpansMatchContent("First line\nsecond line\n\nNext paragraph\n")
+  })
+
+  it("keeps plain text offsets aligned for CRLF files", () => {
+    expectSpansMatchContent("First line\r\nsecond line\r\n\r\nNext paragraph\r\nand more\r\n")
+  })
+
+  it("keeps fenced code offsets aligned for CRLF markdown", () => {
+    expectSpansMatchContent("# Title\r\n\r\n```\r\nconst a = 1\r\nconst b = 2\r\n```\r\n\r\nText\r\nafter\r\n", "markdown")
+  })
+
+  it("leaves carriage returns out of the rendered text", () => {
+    const root = document.createElement("div")
+    root.innerHTML = renderTextContent("one\r\ntwo\r\n")
+    expect(root.textContent).toBe("one\ntwo")
+  })
+})
@@ -0,0 +1,187 @@
+// Renders plain-text and markdown analyses as HTML whose text sits in offset spans
+// (data-start/data-end), the same shape the backend produces for converted documents.
+// Offsets index into the raw content, so ClausePosition values apply unchanged.
+
+import { escapeHtml } from "@/lib/sanitize-html"
+
+interface Line {
+  text: string
+  start: number
+}
+
+export function isMarkdownContentType(contentType?: string): boolean {
+  return contentType === "markdown" || contentType === "md" || contentType === "text/markdown"
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = []
+  let cursor = 0
+  for (const text of content.split("\n")) {
+    // Offsets count the carriage return of CRLF files, but the line text leaves it out
+    lines.push({ text: text.replace(/\r$/, ""), start: cursor })
+    cursor += text.length + 1
+  }
+  return lines
+}
+
+function offsetSpan(text: string, start: number): string {
+  if (!text) return ""
+  return `<span data-start="${start}" data-end="${start + text.length}">${escapeHtml(text)}</span>`
+}
+
+// One offset span per line, joined by unowned newlines. Spanning several lines with one span
+// would break on CRLF files: the HTML parser folds \r\n into \n, so the span's text would
+// end up shorter than its offset range
+function renderLineSpans(lines: Line[]): string {
+  return lines.map((line) => offsetSpan(line.text, line.start)).join("\n")
+}
+
+// Plain text: one paragraph per run of non-blank lines, with line breaks kept by pre-wrap.
+// Paragraphs are divs because highlight tooltips are divs, which would close a <p> on reparse
+function renderPlainText(content: string): string {
+  const html: string[] = []
+  let paragraph: Line[] = []
+
+  const flush = () => {
+    if (paragraph.length === 0) return
+    html.push(`<div class="text-paragraph">${renderLineSpans(paragraph)}</div>`)
+    paragraph = []
+  }
+
+  for (const line of splitLines(content)) {
+    if (line.text.trim()) {
+      paragraph.push(line)
+    } else {
+      flush()
+    }
+  }
+  flush()
+  return html.join("\n")
+}
+
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|\*([^*\s](?:[^*]*[^*\s])?)\*|(?<!\w)_([^_\s](?:[^_]*[^_\s])?)_(?!\w)|`([^`]+)`|\[([^\]]+)\]\(([^)\s]+)\)/g
+
+// Inline markdown: markers are dropped and each run of visible text keeps its own offset
+function renderInline(text: string, start: number): string {
+  let html = ""
+  let cursor = 0
+
+  for (const match of Array.from(text.matchAll(INLINE_PATTERN))) {
+    const index = match.index ?? 0
+    html += offsetSpan(text.slice(cursor, index), start + cursor)
+    const [whole, strongMarker, strong, emphasis, underscoreEmphasis, code, label, href] = match
+
+    if (strongMarker) {
+      html += `<strong>${renderInline(strong, start + index + 2)}</strong>`
+    } else if (emphasis || underscoreEmphasis) {
+      html += `<em>${renderInline(emphasis || underscoreEmphasis, start + index + 1)}</em>`
+    } else if (code) {
+      html += `<code>${offsetSpan(code, start + index + 1)}</code>`
+    } else if (/^https?:/i.test(href)) {
+      html += `<a href="${escapeHtml(href)}" rel="noopener noreferrer" target="_blank">${renderInline(label, start + index + 1)}</a>`
+    } else {
+      html += renderInline(label, start + index + 1)
+    }
+    cursor = index + whole.length
+  }
+
+  return html + offsetSpan(text.slice(cursor), start + cursor)
+}
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/
+const RULE = /^\s*([-*_])(\s*\1){2,}\s*$/
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+/
+const QUOTE = /^\s*>\s?/
+const FENCE = /^\s*(```|~~~)/
+
+// Block-level markdown: headings, rules, fenced code, lists, quotes and paragraphs.
+// Line breaks inside paragraphs are kept as <br> rather than folded into spaces
+function renderMarkdown(content: string): string {
+  const lines = splitLines(content)
+  const html: string[] = []
+  let i = 0
+
+  const renderLines = (block: Line[], prefix: RegExp) =>
+    block
+      .map((line) => {
+        const marker = line.text.match(prefix)?.[0].length || 0
+        return renderInline(line.text.slice(marker), line.start + marker)
+      })
+      .join("<br>")
+
+  while (i < lines.length) {
+    const line = lines[i]
+
+    if (!line.text.trim()) {
+      i++
+      continue
+    }
+
+    const fence = line.text.match(FENCE)
+    if (fence) {
+      const code: Line[] = []
+      i++
+      while (i < lines.length && !lines[i].text.trim().startsWith(fence[1])) {
+        code.push(lines[i++])
+      }
+      i++
+      html.push(`<pre><code>${renderLineSpans(code)}</code></pre>`)
+      continue
+    }
+
+    const heading = line.text.match(HEADING)
+    if (heading) {
+      const level = heading[1].length
+      const textStart = line.text.indexOf(heading[2], heading[1].length)
+      html.push(`<h${level}>${renderInline(heading[2], line.start + textStart)}</h${level}>`)
+      i++
+      continue
+    }
+
+    if (RULE.test(line.text)) {
+      html.push("<hr>")
+      i++
+      continue
+    }
+
+    const listItem = line.text.match(LIST_ITEM)
+    if (listItem) {
+      const ordered = /\d/.test(listItem[2])
+      const items: string[] = []
+      while (i < lines.length && lines[i].text.match(LIST_ITEM) && /\d/.test(lines[i].text.match(LIST_ITEM)![2]) === ordered) {
+        items.push(`<li>${renderLines([lines[i]], LIST_ITEM)}</li>`)
+        i++
+      }
+      html.push(ordered ? `<ol>${items.join("")}</ol>` : `<ul>${items.join("")}</ul>`)
+      continue
+    }
+
+    if (QUOTE.test(line.text)) {
+      const quote: Line[] = []
+      while (i < lines.length && QUOTE.test(lines[i].text)) quote.push(lines[i++])
+      html.push(`<blockquote>${renderLines(quote, QUOTE)}</blockquote>`)
+      continue
+    }
+
+    const paragraph: Line[] = []
+    while (
+      i < lines.length &&
+      lines[i].text.trim() &&
+      !FENCE.test(lines[i].text) &&
+      !HEADING.test(lines[i].text) &&
+      !RULE.test(lines[i].text) &&
+      !LIST_ITEM.test(lines[i].text) &&
+      !QUOTE.test(lines[i].text)
+    ) {
+      paragraph.push(lines[i++])
+    }
+    html.push(`<div class="text-paragraph">${renderLines(paragraph, /^/)}</div>`)
+  }
+
+  return html.join("\n")
+}
+
+export function renderTextContent(content: string, contentType?: string): string {
+  const body = isMarkdownContentType(contentType) ? renderMarkdown(content) : renderPlainText(content)
+  return `<div class="text-document${isMarkdownContentType(contentType) ? " markdown-document" : ""}">${body}</div>`
+}
@@ -0,0 +1,116 @@
+// Full-text search over offset-annotated content. Matches are reported in the backend's
+// offset space, so they can be highlighted and paged to like clause positions.
+
+import { collectOffsetTextNodes, type HighlightRange } from "@/lib/highlight-engine"
+
+export interface SearchOptions {
+  regex: boolean
+  wholeWord: boolean
+}
+
+export interface TextIndex {
+  text: string
+  // Runs of contiguous offsets: `length` characters at `index` in `text` start at `offset`
+  runs: Array<{ index: number; offset: number; length: number }>
+}
+
+// A match with the text around it, for listing results
+export interface SearchMatchData {
+  index: number
+  before: string
+  text: string
+  after: string
+}
+
+export type SearchMatch = HighlightRange<SearchMatchData>
+
+// Stop collecting after this many matches so one-letter queries on long contracts stay responsive
+export const MAX_SEARCH_MATCHES = 5000
+// Characters of context shown on each side of a listed match
+const SNIPPET_CONTEXT = 40
+
+// Join the offset text of a document into one searchable string. Runs that are not
+// contiguous in offset space (separate paragraphs, pages) are separated by a newline
+export function buildTextIndex(html: string): TextIndex {
+  const doc = new DOMParser().parseFromString(html, "text/html")
+  const runs: TextIndex["runs"] = []
+  let text = ""
+  let lastEnd: number | null = null
+
+  for (const { node, start } of collectOffsetTextNodes(doc.body)) {
+    const length = node.data.length
+    if (length === 0) continue
+
+    const last = runs[runs.length - 1]
+    if (last && lastEnd === start) {
+      last.length += length
+    } else {
+      if (lastEnd !== null) text += "\n"
+      runs.push({ index: text.length, offset: start, length })
+    }
+    text += node.data
+    lastEnd = start + length
+  }
+
+  return { text, runs }
+}
+
+// Map a position in the joined text to a document offset, by binary search over the runs.
+// Match ends sit just past their last character, so they resolve against that character's run
+function toOffset(index: TextIndex, position: number, edge: "start" | "end"): number | null {
+  const target = edge === "start" ? position : position - 1
+  let low = 0
+  let high = index.runs.length - 1
+  while (low <= high) {
+    const middle = Math.floor((low + high) / 2)
+    const run = index.runs[middle]
+    if (target < run.index) {
+      high = middle - 1
+    } else if (target >= run.index + run.length) {
+      low = middle + 1
+    } else {
+      return run.offset + position - run.index
+    }
+  }
+  return null
+}
+
+// Throws a SyntaxError for invalid regular expressions
+export function createSearchPattern(query: string, { regex, wholeWord }: SearchOptions): RegExp {
+  const source = regex ? query : query.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+  return new RegExp(wholeWord ? `\\b(?:${source})\\b` : source, "gi")
+}
+
+export function searchText(index: TextIndex, query: string, options: SearchOptions): SearchMatch[] {
+  if (!query) return []
+
+  const pattern = createSearchPattern(query, options)
+  const matches: SearchMatch[] = []
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(index.text)) !== null && matches.length < MAX_SEARCH_MATCHES) {
+    if (match[0].length === 0) {
+      // Empty matches (e.g. `a*`) would never advance
+      pattern.lastIndex++
+      continue
+    }
+
+    const start = toOffset(index, match.index, "start")
+    const end = toOffset(index, match.index + match[0].length, "end")
+    if (start === null || end === null) continue
+    const matchEnd = match.index + match[0].length
+    matches.push({
+      id: `search-${matches.length}`,
+      start,
+      end,
+      data: {
+        index: matches.length,
+        before: index.text.slice(Math.max(0, match.index - SNIPPET_CONTEXT), match.index).replace(/^\S*\s/, "…").replace(/\s+/g, " "),
+        text: match[0],
+        after: index.text.slice(matchEnd, matchEnd + SNIPPET_CONTEXT).replace(/\s\S*$/, "…").replace(/\s+/g, " "),
+      },
+    })
+  }
+
+  return matches
+}
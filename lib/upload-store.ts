@@ -0,0 +1,72 @@
+// IndexedDB records for in-progress chunked uploads, so an upload interrupted by a
+// reload or a dropped connection can pick up where it stopped. Only the server's
+// upload ID is kept; which chunks arrived is always asked of the server on resume
+
+const DB_NAME = 'clause-uploads';
+const STORE_NAME = 'uploads';
+
+export interface UploadRecord {
+  key: string; // File fingerprint, see getUploadKey
+  upload_id: string;
+  chunk_size: number;
+  updated_at: string;
+}
+
+// A re-selected file can't be matched by identity after a reload, so name, size and
+// modification time stand in for it
+export function getUploadKey(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+// Storage failures (private browsing, quota) only cost resumability, never the upload itself
+export async function getUploadRecord(key: string): Promise<UploadRecord | undefined> {
+  if (typeof indexedDB === 'undefined') return undefined;
+  try {
+    return await withStore<UploadRecord | undefined>('readonly', (store) => store.get(key));
+  } catch (error) {
+    console.error('Error reading upload record:', error);
+    return undefined;
+  }
+}
+
+export async function saveUploadRecord(record: UploadRecord): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withStore('readwrite', (store) => store.put(record));
+  } catch (error) {
+    console.error('Error saving upload record:', error);
+  }
+}
+
+export async function deleteUploadRecord(key: string): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await withStore('readwrite', (store) => store.delete(key));
+  } catch (error) {
+    console.error('Error deleting upload record:', error);
+  }
+}